@@ -0,0 +1,212 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseXML } from '../xml-peruse';
+
+// Benchmark against a generated JMdict-like file
+//
+//   npx tsx benchmarks/jmdict-bench.ts [entries]
+//
+// The file is generated once per entry count from a fixed seed, so every run parses
+// the same input. The default of 200000 entries gives a file of roughly the same size
+// and shape as JMdict_e. If `fast-xml-parser` is installed it is timed on the same file.
+// Each parser runs in a process of its own, so its peak memory is its own.
+
+const k_DEFAULT_ENTRIES = 200_000;
+const k_SEED = 0x4a4d44;
+
+// mulberry32: small deterministic PRNG
+const makeRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const k_POS = ['n', 'v1', 'v5k', 'adj-i', 'adj-na', 'adv', 'exp', 'int'];
+const k_MISC = ['uk', 'hum', 'hon', 'sl', 'arch', 'obs'];
+const k_PRI = ['news1', 'news2', 'ichi1', 'ichi2', 'spec1', 'gai1', 'nf01', 'nf12', 'nf24'];
+const k_LANGS = ['ger', 'fre', 'rus', 'dut', 'spa'];
+const k_WORDS = ['to', 'eat', 'walk', 'house', 'water', 'tree', 'bright', 'quickly',
+    'sound', 'distant', 'small', 'river', 'mountain', 'study', 'language', 'letter'];
+
+const k_PROLOG = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE JMdict [
+<!ELEMENT JMdict (entry*)>
+<!ELEMENT entry (ent_seq, k_ele*, r_ele+, sense+)>
+<!ELEMENT ent_seq (#PCDATA)>
+<!ELEMENT k_ele (keb, ke_inf*, ke_pri*)>
+<!ELEMENT keb (#PCDATA)>
+<!ELEMENT ke_pri (#PCDATA)>
+<!ELEMENT r_ele (reb, re_nokanji?, re_restr*, re_inf*, re_pri*)>
+<!ELEMENT reb (#PCDATA)>
+<!ELEMENT re_pri (#PCDATA)>
+<!ELEMENT sense (stagk*, stagr*, pos*, xref*, ant*, field*, misc*, s_inf*, lsource*, dial*, gloss*)>
+<!ELEMENT pos (#PCDATA)>
+<!ELEMENT misc (#PCDATA)>
+<!ELEMENT gloss (#PCDATA)>
+<!ATTLIST gloss xml:lang CDATA "eng">
+<!ENTITY n "noun (common) (futsuumeishi)">
+<!ENTITY v1 "Ichidan verb">
+<!ENTITY v5k "Godan verb with 'ku' ending">
+<!ENTITY adj-i "adjective (keiyoushi)">
+<!ENTITY adj-na "adjectival nouns or quasi-adjectives (keiyodoshi)">
+<!ENTITY adv "adverb (fukushi)">
+<!ENTITY exp "expressions (phrases, clauses, etc.)">
+<!ENTITY int "interjection (kandoushi)">
+<!ENTITY uk "word usually written using kana alone">
+<!ENTITY hum "humble (kenjougo) language">
+<!ENTITY hon "honorific or respectful (sonkeigo) language">
+<!ENTITY sl "slang">
+<!ENTITY arch "archaic">
+<!ENTITY obs "obsolete term">
+]>
+<JMdict>
+`;
+
+function generateFile(filePath: string, entries: number) {
+    const random = makeRandom(k_SEED);
+    const pick = <T>(arr: T[]): T => arr[Math.floor(random() * arr.length)];
+    const kana = () => {
+        let s = '';
+        const len = 2 + Math.floor(random() * 5);
+        for (let i = 0; i < len; i++) s += String.fromCharCode(0x3041 + Math.floor(random() * 86));
+        return s;
+    };
+    const kanji = () => {
+        let s = '';
+        const len = 1 + Math.floor(random() * 3);
+        for (let i = 0; i < len; i++) s += String.fromCharCode(0x4E00 + Math.floor(random() * 2000));
+        return s;
+    };
+    const gloss = () => {
+        const words: string[] = [];
+        const len = 1 + Math.floor(random() * 4);
+        for (let i = 0; i < len; i++) words.push(pick(k_WORDS));
+        return words.join(' ');
+    };
+
+    const fd = fs.openSync(filePath, 'w');
+    fs.writeSync(fd, k_PROLOG);
+    let out = '';
+    for (let i = 0; i < entries; i++) {
+        out += `<entry>\n<ent_seq>${1000000 + i}</ent_seq>\n`;
+        const kCount = Math.floor(random() * 3);
+        for (let k = 0; k < kCount; k++) {
+            out += `<k_ele>\n<keb>${kanji()}</keb>\n`;
+            if (random() < 0.3) out += `<ke_pri>${pick(k_PRI)}</ke_pri>\n`;
+            out += `</k_ele>\n`;
+        }
+        const rCount = 1 + Math.floor(random() * 2);
+        for (let r = 0; r < rCount; r++) {
+            out += `<r_ele>\n<reb>${kana()}</reb>\n`;
+            if (random() < 0.3) out += `<re_pri>${pick(k_PRI)}</re_pri>\n`;
+            out += `</r_ele>\n`;
+        }
+        const sCount = 1 + Math.floor(random() * 3);
+        for (let s = 0; s < sCount; s++) {
+            out += `<sense>\n<pos>&${pick(k_POS)};</pos>\n`;
+            if (random() < 0.2) out += `<misc>&${pick(k_MISC)};</misc>\n`;
+            const gCount = 1 + Math.floor(random() * 3);
+            for (let g = 0; g < gCount; g++) out += `<gloss>${gloss()}</gloss>\n`;
+            if (random() < 0.3) out += `<gloss xml:lang="${pick(k_LANGS)}">${gloss()}</gloss>\n`;
+            out += `</sense>\n`;
+        }
+        out += `</entry>\n`;
+
+        if (out.length > 1 << 20) {
+            fs.writeSync(fd, out);
+            out = '';
+        }
+    }
+    fs.writeSync(fd, out + '</JMdict>\n');
+    fs.closeSync(fd);
+}
+
+// The part of fast-xml-parser's API used here. It's an optional comparison, so it's loaded
+// by a name the compiler doesn't resolve and typed by hand.
+type FastXmlParserModule = {
+    XMLParser: new (options: { ignoreAttributes: boolean; processEntities: boolean }) => {
+        parse: (xml: string) => unknown;
+    };
+};
+
+async function loadFastXmlParser(): Promise<FastXmlParserModule | undefined> {
+    const moduleName = 'fast-xml-parser';
+    try {
+        return await import(moduleName) as FastXmlParserModule;
+    } catch {
+        return undefined;
+    }
+}
+
+type BenchResult = { name: string; ms: number; entries: number; peakRssMB: number };
+
+// Parsers by name, each parsing the file and returning its entry count
+const k_PARSERS: Record<string, (filePath: string) => Promise<number>> = {
+    'xml-peruse': async (filePath) => {
+        let count = 0;
+        await parseXML(filePath, {
+            skipRoot: true,
+            onElements: { entry: () => { count++; } },
+        });
+        return count;
+    },
+    'fast-xml-parser': async (filePath) => {
+        const fastXmlParser = await loadFastXmlParser();
+        if (!fastXmlParser) throw new Error('fast-xml-parser is not installed');
+        const xml = fs.readFileSync(filePath, 'utf-8');
+        const parser = new fastXmlParser.XMLParser({ ignoreAttributes: false, processEntities: false });
+        const doc = parser.parse(xml) as { JMdict: { entry: unknown[] } };
+        return doc.JMdict.entry.length;
+    },
+};
+
+// In a child process: time one parser and print its result as JSON
+async function runOne(name: string, filePath: string) {
+    const start = process.hrtime.bigint();
+    const entries = await k_PARSERS[name](filePath);
+    const ms = Number(process.hrtime.bigint() - start) / 1e6;
+    // maxRSS is in kilobytes
+    const peakRssMB = process.resourceUsage().maxRSS / 1024;
+    const result: BenchResult = { name, ms, entries, peakRssMB };
+    console.log(JSON.stringify(result));
+}
+
+// Run one parser in a fresh process, with the same loader (e.g. tsx) as this one
+function timeInChild(name: string, filePath: string): BenchResult {
+    const child = spawnSync(process.execPath, [...process.execArgv, __filename, '--run', name, filePath], {
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    if (child.status != 0) throw new Error(`${name} exited with status ${child.status}`);
+    return JSON.parse(child.stdout.trim().split('\n').at(-1)!) as BenchResult;
+}
+
+async function main() {
+    if (process.argv[2] == '--run') return runOne(process.argv[3], process.argv[4]);
+
+    const entries = parseInt(process.argv[2] ?? '') || k_DEFAULT_ENTRIES;
+    const filePath = path.join(os.tmpdir(), `xml-peruse-bench-jmdict-${entries}.xml`);
+    if (!fs.existsSync(filePath)) {
+        console.log(`Generating ${filePath}...`);
+        generateFile(filePath, entries);
+    }
+    const sizeMB = fs.statSync(filePath).size / (1024 * 1024);
+    console.log(`${entries} entries, ${sizeMB.toFixed(1)} MB`);
+
+    const results: BenchResult[] = [timeInChild('xml-peruse', filePath)];
+    if (await loadFastXmlParser()) results.push(timeInChild('fast-xml-parser', filePath));
+    else console.log('fast-xml-parser is not installed, skipping comparison');
+
+    for (const { name, ms, entries, peakRssMB } of results) {
+        const mbPerSec = sizeMB / (ms / 1000);
+        console.log(
+            `${name.padEnd(16)} ${ms.toFixed(0).padStart(7)} ms  ` +
+            `${mbPerSec.toFixed(1).padStart(6)} MB/s  ${entries} entries  peak rss ${peakRssMB.toFixed(0)} MB`
+        );
+    }
+}
+
+main();
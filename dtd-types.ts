@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    createFileResolver, parseXML, STOP,
+    XMLContentModel, XMLContentParticle, XMLDoctype, XMLDtdDecl, XMLEntityResolver, XMLSource,
+} from './xml-peruse';
+
+// Generate `ParamXMLElement`-based types from a document's DTD, in the style of
+// examples/Jmdict.ts: a tag and attribute key map, one element type per <!ELEMENT>
+// with its children narrowed by the content model and attributes by the <!ATTLIST>s,
+// and a union of them all to pass as `PSchemaElement`.
+//
+//   npx tsx dtd-types.ts <file> [--prefix JME] [--import ../xml-peruse] [--out types.ts]
+
+export type DtdTypesOptions = {
+    // Prefix of the generated type names. Defaults to the root tag name.
+    prefix?: string;
+    // Module the generated file imports `ParamXMLElement` from. Default 'xml-peruse'
+    importFrom?: string;
+    // Loads the external DTD subset when reading a source, e.g. `createFileResolver`
+    resolveEntity?: XMLEntityResolver;
+};
+
+type Dtd_ATTLIST = Extract<XMLDtdDecl, { tagName: '!ATTLIST' }>;
+type Dtd_ATTLIST_Attr = Dtd_ATTLIST['attributes'][number];
+
+const toIdentifier = (name: string): string => {
+    const id = name.replace(/[^A-Za-z0-9_$]/g, '_');
+    return /^[0-9]/.test(id) ? '_' + id : id;
+}
+// ent_seq -> EntSeq, xml:lang -> XmlLang
+const toPascalCase = (name: string): string => name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((part) => part)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+const quoteKey = (key: string): string => /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+const quoteLiteral = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+const arrayOf = (types: string[]): string => types.length == 1 ? `${types[0]}[]` : `(${types.join(' | ')})[]`;
+
+// Whether a particle can match no elements at all
+const isNullable = (particle: XMLContentParticle): boolean => {
+    if (particle.quantifier == '?' || particle.quantifier == '*') return true;
+    if (particle.kind == 'name') return false;
+    return particle.kind == 'seq'
+        ? particle.particles.every(isNullable)
+        : particle.particles.some(isNullable);
+}
+const collectNames = (particle: XMLContentParticle, names: Set<string>) => {
+    if (particle.kind == 'name') names.add(particle.name);
+    else for (const p of particle.particles) collectNames(p, names);
+}
+
+// TypeScript type of an attribute's value: its enumeration as a union of literals, or string
+const attributeValueType = (attr: Dtd_ATTLIST_Attr): string => {
+    const enumeration = attr.dataType.match(/^\((.*)\)$/s);
+    if (!enumeration) return 'string';
+    return enumeration[1].split('|').map((v) => quoteLiteral(v.trim())).join(' | ');
+}
+
+export function generateDtdTypes(doctype: XMLDoctype, options: DtdTypesOptions = {}): string {
+    const decls = [...doctype.internal ?? [], ...doctype.externalSubset ?? []];
+    const prefix = toIdentifier(options.prefix ?? (toPascalCase(doctype.rootTagName) || 'Dtd'));
+    const importFrom = options.importFrom ?? 'xml-peruse';
+
+    const models: Map<string, XMLContentModel> = new Map();
+    const attlists: Map<string, Dtd_ATTLIST_Attr[]> = new Map();
+    for (const decl of decls) {
+        if (decl.tagName == '!ELEMENT' && !models.has(decl.elementName)) {
+            models.set(decl.elementName, decl.model ?? { kind: 'ANY' });
+        }
+        else if (decl.tagName == '!ATTLIST') {
+            const attrs = attlists.get(decl.elementName) ?? [];
+            // The first declaration of an attribute is binding
+            for (const attr of decl.attributes) {
+                if (!attrs.some((a) => a.attributeName == attr.attributeName)) attrs.push(attr);
+            }
+            attlists.set(decl.elementName, attrs);
+        }
+    }
+
+    // Every element name, including ones only referenced from content models
+    const tagNames: Set<string> = new Set(models.keys());
+    for (const model of models.values()) {
+        if (model.kind == 'mixed') model.names.forEach((n) => tagNames.add(n));
+        if (model.kind == 'children') collectNames(model.particle, tagNames);
+    }
+    const attrKeys: Set<string> = new Set();
+    for (const attrs of attlists.values()) attrs.forEach((a) => attrKeys.add(a.attributeName));
+
+    // One type name per element, kept unique when names differ only in punctuation
+    const typeNames: Map<string, string> = new Map();
+    const usedTypeNames: Set<string> = new Set();
+    for (const tagName of models.keys()) {
+        let typeName = `${prefix}_${toPascalCase(tagName) || toIdentifier(tagName)}`;
+        for (let n = 2; usedTypeNames.has(typeName); n++) typeName = `${prefix}_${toPascalCase(tagName)}${n}`;
+        usedTypeNames.add(typeName);
+        typeNames.set(tagName, typeName);
+    }
+
+    const tagTypeName = `${prefix}TagType`;
+    const attrKeyName = `${prefix}AttrKey`;
+    const elementName = `${prefix}Element`;
+    // Elements referenced but never declared can only be typed by their tag name
+    const childType = (tagName: string): string =>
+        typeNames.get(tagName) ?? `(${elementName} & { tagName: ${quoteLiteral(tagName)} })`;
+
+    const lines: string[] = [];
+    lines.push(`// Generated by xml-peruse from the DTD of <${doctype.rootTagName}>. Do not edit.`);
+    lines.push(`import { ParamXMLElement } from ${quoteLiteral(importFrom)};`);
+    lines.push('');
+
+    lines.push(`export type ${tagTypeName} = {`);
+    for (const tagName of tagNames) lines.push(`    ${quoteKey(tagName)}: ${quoteLiteral(tagName)};`);
+    lines.push('};');
+    lines.push(`export type ${attrKeyName} = {`);
+    for (const key of attrKeys) lines.push(`    ${quoteKey(key)}: ${quoteLiteral(key)};`);
+    lines.push('};');
+    lines.push(`export type ${elementName} = ParamXMLElement<keyof ${tagTypeName}, keyof ${attrKeyName}>;`);
+    lines.push('');
+
+    for (const [tagName, model] of models) {
+        const typeName = typeNames.get(tagName)!;
+        lines.push(`export type ${typeName} = ${elementName} & {`);
+        lines.push(`    tagName: ${quoteLiteral(tagName)};`);
+
+        const attrs = attlists.get(tagName) ?? [];
+        if (attrs.length > 0) {
+            const isRequired = (a: Dtd_ATTLIST_Attr) => a.defaultDeclaration.defaultType == '#REQUIRED';
+            lines.push(`    attributes${attrs.some(isRequired) ? '' : '?'}: {`);
+            for (const attr of attrs) {
+                const optional = isRequired(attr) ? '' : '?';
+                const fixed = attr.defaultDeclaration.defaultType == '#FIXED'
+                    ? attr.defaultDeclaration.defaultValue : undefined;
+                const valueType = fixed != undefined ? quoteLiteral(fixed) : attributeValueType(attr);
+                lines.push(`        ${quoteKey(attr.attributeName)}${optional}: ${valueType};`);
+            }
+            lines.push('    };');
+        }
+
+        // Elements written as <a/> have no `children`, so it's optional wherever the
+        // model allows no content
+        if (model.kind == 'EMPTY') {
+            lines.push('    children?: [];');
+        }
+        else if (model.kind == 'mixed') {
+            lines.push(`    children?: ${arrayOf(['string', ...model.names.map(childType)])};`);
+        }
+        else if (model.kind == 'children') {
+            const names: Set<string> = new Set();
+            collectNames(model.particle, names);
+            const children = arrayOf([...names].map(childType));
+            lines.push(`    children${isNullable(model.particle) ? '?' : ''}: ${children};`);
+        }
+        lines.push('};');
+    }
+    lines.push('');
+
+    const all = [...typeNames.values()];
+    lines.push(`export type ${prefix}_Any =`);
+    lines.push(all.length > 0 ? all.map((t) => `    | ${t}`).join('\n') + ';' : '    never;');
+    lines.push('');
+    return lines.join('\n');
+}
+
+// Read the DOCTYPE at the start of `source` and generate types from it. Parsing stops at
+// the root element.
+export async function generateDtdTypesFromSource(source: XMLSource, options: DtdTypesOptions = {}): Promise<string> {
+    let doctype: XMLDoctype | undefined = undefined;
+    await parseXML(source, {
+        onDoctype: (dc) => { doctype = dc },
+        onOpenTag: () => STOP,
+        resolveEntity: options.resolveEntity,
+    });
+    if (!doctype) throw new Error('No DOCTYPE found');
+    return generateDtdTypes(doctype, options);
+}
+
+async function main(args: string[]) {
+    const options: DtdTypesOptions = {};
+    let file: string | undefined = undefined;
+    let out: string | undefined = undefined;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg == '--prefix') options.prefix = args[++i];
+        else if (arg == '--import') options.importFrom = args[++i];
+        else if (arg == '--out') out = args[++i];
+        else if (!file && !arg.startsWith('--')) file = arg;
+        else throw new Error(`Unexpected argument '${arg}'`);
+    }
+    if (!file) {
+        console.error('Usage: dtd-types <file> [--prefix NAME] [--import MODULE] [--out FILE]');
+        process.exitCode = 2;
+        return;
+    }
+
+    // An external subset is read from next to the file
+    options.resolveEntity = createFileResolver(path.dirname(path.resolve(file)));
+    const types = await generateDtdTypesFromSource(file, options);
+    if (out) fs.writeFileSync(out, types);
+    else process.stdout.write(types);
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).catch((err) => {
+        console.error(err instanceof Error ? err.message : err);
+        process.exitCode = 1;
+    });
+}
@@ -197,6 +197,9 @@ type JME_Entry = JmdictElement & {
     tagName: 'entry',
     children: (JME_EntSeq | JME_Kele | JME_Rele | JME_Sense)[],
 };
+type JME_Any = JME_EntSeq | JME_Keb | JME_Kepri | JME_Keinf | JME_Kele
+    | JME_Reb | JME_Repri | JME_Reinf | JME_Rele
+    | JME_Gloss | JME_Pos | JME_Misc | JME_Xref | JME_Sinf | JME_Sense | JME_Entry;
 
 
 //----------------------------------------------------------------------------------------------------------------------
@@ -271,12 +274,10 @@ export class Jmdict {
             return entry;
         };
 
-        const onElement = (el: JmdictElement) => {
-            if (el.tagName == 'entry') {
-                const entry: JmdictEntry = serializeEntry(el as JME_Entry)
-                // console.dir(entry, { depth: null, colors: true });
-                this.emplaceEntry(entry);
-            }
+        const onEntry = (el: JME_Entry) => {
+            const entry: JmdictEntry = serializeEntry(el)
+            // console.dir(entry, { depth: null, colors: true });
+            this.emplaceEntry(entry);
         };
 
         const onDtd = (e: XMLDtdDecl) => {
@@ -285,13 +286,15 @@ export class Jmdict {
             }
         }
 
-        const handlers: XMLParserProps<keyof JmdictTagType, keyof JmdictAttrKey> = {
+        const handlers: XMLParserProps<keyof JmdictTagType, keyof JmdictAttrKey, JME_Any> = {
             skipRoot: false,
+            // Keep references like "&uk;" so they can be matched against JmdictAbbrevs
+            entities: 'keep',
             onDtdDecl: onDtd,
-            onElement: onElement,
+            onElements: { entry: onEntry },
         };
 
-        await xmlparser.parseXML<keyof JmdictTagType, keyof JmdictAttrKey>(filePath, handlers);
+        await xmlparser.parseXML<keyof JmdictTagType, keyof JmdictAttrKey, JME_Any>(filePath, handlers);
     }
 
     private emplaceEntity(key: string, value: string): void {
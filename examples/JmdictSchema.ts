@@ -0,0 +1,61 @@
+import { el, many, optional, parseXML, text, XMLInfer } from '../xml-peruse';
+
+// The "Runtime schemas" example from the README, with the schema completed from the JMdict
+// DTD: entries checked as they're parsed, with their element type inferred from the schema.
+//
+//   npx tsx examples/JmdictSchema.ts <JMdict_e>
+
+// Optional attribute of any value
+const attr = optional(text);
+
+const gloss = el('gloss', {
+    attrs: { 'xml:lang': attr, g_gend: attr, g_type: attr },
+    children: { pri: many(text) },
+    text: true,
+});
+const lsource = el('lsource', { attrs: { 'xml:lang': attr, ls_type: attr, ls_wasei: attr }, text: true });
+const example = el('example', {
+    children: {
+        ex_srce: el('ex_srce', { attrs: { exsrc_type: attr }, text: true }),
+        ex_text: text,
+        ex_sent: many(el('ex_sent', { attrs: { 'xml:lang': attr, ex_srce: attr }, text: true }), 1),
+    },
+});
+const sense = el('sense', {
+    children: {
+        stagk: many(text), stagr: many(text), pos: many(text), xref: many(text), ant: many(text),
+        field: many(text), misc: many(text), s_inf: many(text), lsource: many(lsource), dial: many(text),
+        gloss: many(gloss), example: many(example),
+    },
+});
+const kele = el('k_ele', { children: { keb: text, ke_inf: many(text), ke_pri: many(text) } });
+const rele = el('r_ele', {
+    children: { reb: text, re_nokanji: optional(text), re_restr: many(text), re_inf: many(text), re_pri: many(text) },
+});
+const entry = el('entry', {
+    children: { ent_seq: text, k_ele: many(kele), r_ele: many(rele, 1), sense: many(sense, 1) },
+});
+export type JME_Entry = XMLInfer<typeof entry>;
+
+// Readings of an entry; `children` is there without a check, since an entry needs an <r_ele>
+const readingsOf = (entry: JME_Entry): string[] => entry.children
+    .filter((child) => child.tagName == 'r_ele')
+    .map((rele) => rele.children.find((child) => child.tagName == 'reb')?.children?.[0] ?? '');
+
+async function main(filePath: string) {
+    let count = 0;
+    await parseXML<string, string, JME_Entry>(filePath, {
+        schema: entry,
+        onValidationError: (err) => console.warn(err.message),
+        onElements: {
+            entry: (el) => {
+                if (count++ < 5) console.log(readingsOf(el).join(', '));
+            },
+        },
+    });
+    console.log(`${count} entries`);
+}
+
+if (require.main === module) {
+    main(process.argv[2]);
+}
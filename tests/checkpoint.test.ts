@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, test } from 'node:test';
+import { Readable } from 'stream';
+import { parseXML, peruse, XMLCheckpoint, XMLElement, XMLSource } from '../xml-peruse';
+
+// Entries with an entity from the DOCTYPE and a prefix bound on the root, so resuming has
+// to restore both from the checkpoint's prolog
+const k_DOCUMENT = '<?xml version="1.0"?>\n<!DOCTYPE dict [<!ENTITY n "noun">]>\n<dict xmlns:x="urn:x">\n'
+    + Array.from({ length: 40 }, (_, i) => `<entry id="${i}"><pos>&n;</pos><x:note>辞書 ${i}</x:note></entry>\n`).join('')
+    + '</dict>\n';
+const k_INTERVAL = 200;
+
+let dir: string;
+let filePath: string;
+before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xml-peruse-checkpoint-'));
+    filePath = path.join(dir, 'dict.xml');
+    fs.writeFileSync(filePath, k_DOCUMENT);
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+type Run = { entries: string[]; checkpoints: XMLCheckpoint[] };
+
+// Entries, with their position, and checkpoints from parsing `source`
+async function run(source: XMLSource, resumeFrom?: XMLCheckpoint): Promise<Run> {
+    const result: Run = { entries: [], checkpoints: [] };
+    await parseXML(source, {
+        skipRoot: true,
+        namespaces: true,
+        locations: true,
+        resumeFrom,
+        checkpointInterval: k_INTERVAL,
+        onElements: {
+            entry: (el: XMLElement) => { result.entries.push(JSON.stringify([el.attributes, el.children, el.location])) },
+        },
+        // Stored as they would be between runs
+        onCheckpoint: (checkpoint) => { result.checkpoints.push(JSON.parse(JSON.stringify(checkpoint))) },
+    });
+    return result;
+}
+
+// Entries before the checkpoint at `index` of a full run
+const entriesBefore = (full: Run, index: number): number => {
+    const offset = full.checkpoints[index].position.offset;
+    return full.entries.filter((entry) => JSON.parse(entry)[2].start.offset < offset).length;
+}
+
+test('hands out checkpoints at entry boundaries', async () => {
+    const full = await run(filePath);
+    assert.equal(full.entries.length, 40);
+    assert.ok(full.checkpoints.length > 5);
+    for (const { position, prolog } of full.checkpoints) {
+        assert.ok(prolog.endsWith('<dict xmlns:x="urn:x">'));
+        assert.ok(Buffer.from(k_DOCUMENT).subarray(0, position.offset).toString().endsWith('</entry>'));
+    }
+});
+
+test('resumes with exactly the entries after each checkpoint', async () => {
+    const full = await run(filePath);
+    const bytes = Buffer.from(k_DOCUMENT);
+    const sources: [string, () => XMLSource][] = [
+        ['file', () => filePath],
+        ['buffer', () => bytes],
+        ['stream', () => Readable.from(Array.from({ length: Math.ceil(bytes.length / 37) }, (_, i) => bytes.subarray(i * 37, i * 37 + 37)))],
+    ];
+    for (const [i, checkpoint] of full.checkpoints.entries()) {
+        const done = entriesBefore(full, i);
+        for (const [name, source] of sources) {
+            const resumed = await run(source(), checkpoint);
+            assert.deepEqual(resumed.entries, full.entries.slice(done), `${name} from checkpoint ${i}`);
+            assert.deepEqual(resumed.checkpoints, full.checkpoints.slice(i + 1), `${name} checkpoints after ${i}`);
+        }
+    }
+});
+
+test('rejects a checkpoint that does not fit the document', async () => {
+    const full = await run(filePath);
+    const checkpoint = { ...full.checkpoints[0], prolog: '<?xml version="1.0"?>' };
+    await assert.rejects(run(filePath, checkpoint), { code: 'INVALID_CHECKPOINT' });
+});
+
+test('peruse holds each checkpoint until the entries before it are consumed', async () => {
+    const full = await run(filePath);
+    const seen: number[] = [];
+    let consumed = 0;
+    for await (const el of peruse(filePath, {
+        select: 'entry',
+        checkpointInterval: k_INTERVAL,
+        onCheckpoint: () => { seen.push(consumed) },
+    })) {
+        assert.equal(el.tagName, 'entry');
+        consumed++;
+    }
+    assert.deepEqual(seen, full.checkpoints.map((_, i) => entriesBefore(full, i)));
+});
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseXMLString, XMLElement } from '../xml-peruse';
+
+// A DOCTYPE of `levels` entities, each referencing the one before ten times
+function nestedEntities(levels: number): string {
+    let doctype = '<!DOCTYPE r [<!ENTITY e0 "lol">';
+    for (let i = 1; i <= levels; i++) doctype += `<!ENTITY e${i} "${`&e${i - 1};`.repeat(10)}">`;
+    return doctype + ']>';
+}
+
+test('expands nested entities within the limit', async () => {
+    let root: XMLElement | undefined = undefined;
+    await parseXMLString(nestedEntities(3) + '<r>&e3;</r>', { onElement: (el) => { root = el } });
+    assert.deepEqual(root!.children, ['lol'.repeat(1000)]);
+});
+
+test('rejects entities that expand past the limit', async () => {
+    for (const body of ['<r>&e9;</r>', '<r a="&e9;"/>']) {
+        await assert.rejects(parseXMLString(nestedEntities(9) + body), { code: 'ENTITY_EXPANSION_LIMIT' });
+    }
+});
+
+test('rejects parameter entities that expand past the limit', async () => {
+    let doctype = '<!DOCTYPE r [<!ENTITY % p0 "lol">';
+    for (let i = 1; i <= 9; i++) doctype += `<!ENTITY % p${i} "${`%p${i - 1};`.repeat(10)}">`;
+    await assert.rejects(parseXMLString(doctype + '<!ENTITY x "%p9;">]><r/>'), { code: 'ENTITY_EXPANSION_LIMIT' });
+});
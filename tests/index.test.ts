@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, test } from 'node:test';
+import { buildXMLIndex, readElementAt, XMLElement } from '../xml-peruse';
+
+let dir: string;
+before(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xml-peruse-index-')) });
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const writeFile = (name: string, xml: string): string => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, xml);
+    return filePath;
+}
+const idOf = (el: XMLElement) => el.attributes?.id;
+
+test('reads indexed elements with the DOCTYPE\'s entities', async () => {
+    const filePath = writeFile('dict.xml', '<!DOCTYPE r [<!ENTITY n "noun">]>\n'
+        + '<r>\n<e id="a"><pos>&n;</pos></e>\n<e><pos>no key</pos></e>\n<e id="b"/>\n<e id="a">duplicate</e>\n</r>\n');
+    const index = await buildXMLIndex(filePath, { select: '/r/e', key: idOf });
+    assert.deepEqual(Object.keys(index.entries), ['a', 'b']);
+    // Plain JSON, so it can be saved and loaded again
+    const loaded = JSON.parse(JSON.stringify(index));
+
+    const a = await readElementAt(filePath, loaded, 'a');
+    assert.deepEqual(a?.children, [{ tagName: 'pos', attributes: undefined, children: ['noun'] }]);
+    const b = await readElementAt(filePath, loaded, 'b');
+    assert.equal(b?.tagName, 'e');
+    assert.equal(await readElementAt(filePath, loaded, 'missing'), undefined);
+    assert.equal(await readElementAt(filePath, loaded, 'toString'), undefined);
+});
+
+test('replays the start tags of ancestors below the root', async () => {
+    const filePath = writeFile('nested.xml', '<r><w xmlns:p="u" xml:space="preserve"><v>'
+        + '<p:x id="1"> s </p:x><p:x id="2"/></v></w><p:x xmlns:p="v" id="3"><p:x id="4"/></p:x></r>');
+    const index = await buildXMLIndex(filePath, { select: 'p:x', key: idOf, namespaces: true });
+    assert.deepEqual(Object.keys(index.entries), ['1', '2', '3', '4']);
+
+    const expected: [string, string, string[] | undefined][] = [
+        ['1', 'u', [' s ']],
+        ['2', 'u', undefined],
+        ['3', 'v', undefined],
+        ['4', 'v', undefined],
+    ];
+    for (const [key, namespaceURI, children] of expected) {
+        const el = await readElementAt(filePath, index, key, { namespaces: true });
+        assert.equal(el?.name?.namespaceURI, namespaceURI, key);
+        if (children) assert.deepEqual(el?.children, children, key);
+    }
+});
+
+test('refuses an out of date index', async () => {
+    const filePath = writeFile('changed.xml', '<r><e id="a"/></r>');
+    const index = await buildXMLIndex(filePath, { select: 'e', key: idOf });
+    fs.appendFileSync(filePath, '\n');
+    await assert.rejects(readElementAt(filePath, index, 'a'), /out of date/);
+});
+
+test('reports a file that can\'t be read as IO_ERROR', async () => {
+    await assert.rejects(buildXMLIndex(path.join(dir, 'missing.xml'), { select: 'e', key: idOf }), { code: 'IO_ERROR' });
+});
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { el, parseXMLString, text, XMLParserProps, XMLSourcePosition } from '../xml-peruse';
+
+// Positions reported in errors and warnings while parsing `xml`
+async function reportedPositions(xml: string, props: XMLParserProps<string, string>): Promise<XMLSourcePosition[]> {
+    const positions: XMLSourcePosition[] = [];
+    await parseXMLString(xml, {
+        ...props,
+        onValidationError: (err) => { positions.push(err.position) },
+        onWarning: (warning) => { positions.push(warning.position) },
+    });
+    return positions;
+}
+
+test('reports the same positions with and without locations', async () => {
+    const cases: [string, XMLParserProps<string, string>][] = [
+        ['<r>\n<a>\n<b>x</b>\n<c/>\n</a>\n<a>\n<z/></a>\n</r>', { schema: el('a', { children: { b: text } }) }],
+        ['<r>\n  <a>\n  <b>\n</r>', { recover: true }],
+    ];
+    for (const [xml, props] of cases) {
+        const expected = await reportedPositions(xml, props);
+        assert.ok(expected.length > 0);
+        assert.deepEqual(await reportedPositions(xml, { ...props, locations: true }), expected);
+    }
+});
+
+test('places an element error at its end tag with locations', async () => {
+    const xml = '<r>\n<a>\n<c/>\n</a>\n</r>';
+    const positions = await reportedPositions(xml, { locations: true, schema: el('a', { children: { b: text } }) });
+    assert.deepEqual(positions[0], { line: 4, column: 1, offset: 13 });
+});
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { expandedName, parseXMLString, XMLElement } from '../xml-peruse';
+
+// Expanded names of the elements in `xml`, in the order they close
+async function expandedNames(xml: string): Promise<string[]> {
+    const names: string[] = [];
+    await parseXMLString(xml, {
+        namespaces: true,
+        onElement: (el) => { names.push(expandedName(el.name!)) },
+    });
+    return names;
+}
+
+test('scopes a rebound prefix to its subtree', async () => {
+    assert.deepEqual(await expandedNames('<p:r xmlns:p="u">'
+        + '<a xmlns:p="v"><p:x/></a>'
+        + '<p:x/>'
+        + '<b xmlns:p="w"><p:x/></b>'
+        + '</p:r>'), ['{v}x', 'a', '{u}x', '{w}x', 'b', '{u}r']);
+});
+
+test('applies the default namespace to elements but not attributes', async () => {
+    assert.deepEqual(await expandedNames('<r xmlns="d"><a xmlns=""><b/></a><c/></r>'), ['b', 'a', '{d}c', '{d}r']);
+
+    let root: XMLElement | undefined = undefined;
+    await parseXMLString('<r xmlns="d" xmlns:p="u" id="1" p:id="2"/>', {
+        namespaces: true,
+        onElement: (el) => { root = el },
+    });
+    assert.deepEqual(root!.attributes, { xmlns: 'd', 'xmlns:p': 'u', id: '1', 'p:id': '2' });
+    assert.deepEqual(root!.attributeNames, {
+        xmlns: { prefix: '', localName: 'xmlns', namespaceURI: 'http://www.w3.org/2000/xmlns/' },
+        'xmlns:p': { prefix: 'xmlns', localName: 'p', namespaceURI: 'http://www.w3.org/2000/xmlns/' },
+        id: { prefix: '', localName: 'id' },
+        'p:id': { prefix: 'p', localName: 'id', namespaceURI: 'u' },
+    });
+});
+
+test('matches handlers keyed by expanded name whatever the prefix', async () => {
+    const seen: string[] = [];
+    await parseXMLString('<r xmlns:a="urn:soap" xmlns:b="urn:soap"><a:Fault n="1"/><b:Fault n="2"/><Fault n="3"/></r>', {
+        namespaces: true,
+        onElements: {
+            '{urn:soap}Fault': (el) => { seen.push(el.attributes!.n!) },
+        },
+    });
+    assert.deepEqual(seen, ['1', '2']);
+});
+
+test('rejects an unbound prefix, or leaves it without a namespace when recovering', async () => {
+    await assert.rejects(parseXMLString('<r><p:x/></r>', { namespaces: true }), { code: 'UNBOUND_PREFIX' });
+    await assert.rejects(parseXMLString('<r><a xmlns:p="u"/><p:x/></r>', { namespaces: true }), { code: 'UNBOUND_PREFIX' });
+    await assert.rejects(parseXMLString('<r q:id="1"/>', { namespaces: true }), { code: 'UNBOUND_PREFIX' });
+
+    const warnings: string[] = [];
+    let name: unknown = undefined;
+    await parseXMLString('<r><p:x/></r>', {
+        namespaces: true,
+        recover: true,
+        onWarning: (warning) => { warnings.push(warning.code) },
+        onElements: { 'p:x': (el) => { name = el.name } },
+    });
+    assert.deepEqual(warnings, ['UNBOUND_PREFIX']);
+    assert.deepEqual(name, { prefix: 'p', localName: 'x' });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, test } from 'node:test';
+import { parseXML, parseXMLParallel, STOP } from '../xml-peruse';
+
+// Entries of different sizes, so ranges take different times, with an entity from the DOCTYPE
+const k_DOCUMENT = '<!DOCTYPE dict [<!ENTITY n "noun">]>\n<dict>\n'
+    + Array.from({ length: 300 }, (_, i) => `<entry id="${i}"><pos>&n;</pos>${'<g>gloss</g>'.repeat(i % 7)}</entry>\n`).join('')
+    + '</dict>\n';
+const k_WORKERS = 2;
+
+let dir: string;
+let filePath: string;
+// Handler modules are loaded by plain Node in the workers
+const handler = (name: string, source: string): string => {
+    const modulePath = path.join(dir, `${name}.js`);
+    fs.writeFileSync(modulePath, source);
+    return modulePath;
+}
+before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xml-peruse-parallel-'));
+    filePath = path.join(dir, 'dict.xml');
+    fs.writeFileSync(filePath, k_DOCUMENT);
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// Results of the same handler run on the main thread
+async function sequential(): Promise<string[]> {
+    const results: string[] = [];
+    await parseXML(filePath, {
+        onElements: { entry: (el) => { results.push(`${el.attributes?.id}:${el.children?.length}:${el.children?.[0]}`) } },
+    });
+    return results;
+}
+const k_HANDLER = 'module.exports = (el) => `${el.attributes.id}:${el.children.length}:${el.children[0]}`;';
+
+test('delivers results in document order', async () => {
+    const expected = await sequential();
+    const results: unknown[] = [];
+    const status = await parseXMLParallel(filePath, {
+        select: 'entry',
+        handlerModule: handler('ordered', k_HANDLER),
+        workers: k_WORKERS,
+        onResult: (result) => { results.push(result) },
+    });
+    assert.equal(status, 'completed');
+    assert.deepEqual(results, expected);
+});
+
+test('delivers every result once when unordered', async () => {
+    const expected = await sequential();
+    const results: unknown[] = [];
+    await parseXMLParallel(filePath, {
+        select: 'entry',
+        handlerModule: handler('unordered', `exports.default = ${k_HANDLER.slice('module.exports = '.length)}`),
+        workers: k_WORKERS,
+        ordered: false,
+        onResult: (result) => { results.push(result) },
+    });
+    assert.deepEqual([...results].sort(), [...expected].sort());
+});
+
+test('stops when onResult returns STOP', async () => {
+    const results: unknown[] = [];
+    const status = await parseXMLParallel(filePath, {
+        select: 'entry',
+        handlerModule: handler('stop', 'exports.onElement = (el) => el.attributes.id;'),
+        workers: k_WORKERS,
+        onResult: (result) => {
+            results.push(result);
+            if (result == '9') return STOP;
+        },
+    });
+    assert.equal(status, 'stopped');
+    assert.deepEqual(results, Array.from({ length: 10 }, (_, i) => String(i)));
+});
+
+test('rejects with an error thrown by onResult', async () => {
+    await assert.rejects(parseXMLParallel(filePath, {
+        select: 'entry',
+        handlerModule: handler('throw', 'module.exports = (el) => el.attributes.id;'),
+        workers: k_WORKERS,
+        onResult: (result) => {
+            if (result == '150') throw new Error('bad result');
+        },
+    }), /bad result/);
+});
+
+test('rejects when a worker exits before finishing', async () => {
+    await assert.rejects(parseXMLParallel(filePath, {
+        select: 'entry',
+        handlerModule: handler('exit', 'module.exports = (el) => el.attributes.id == "150" ? process.exit(3) : 1;'),
+        workers: k_WORKERS,
+    }), /exited with code 3/);
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseXMLString, XMLElement, XMLParseWarning } from '../xml-peruse';
+import { serializeXML } from '../xml-writer';
+
+type Recovered = { roots: string[]; warnings: string[] };
+
+// Root elements, serialized, and the codes and positions of the warnings from parsing `xml`
+// with `recover: true`
+async function recover(xml: string): Promise<Recovered> {
+    const elements: XMLElement[] = [];
+    const warnings: XMLParseWarning[] = [];
+    await parseXMLString(xml, {
+        recover: true,
+        onWarning: (warning) => { warnings.push(warning) },
+        onElement: (el) => { elements.push(el) },
+    });
+    const roots = elements.filter((el) => !elements.some((parent) => parent.children?.includes(el)));
+    return {
+        roots: roots.map((el) => serializeXML(el)),
+        warnings: warnings.map((w) => `${w.code}@${w.position.line}:${w.position.column}`),
+    };
+}
+
+test('closes elements left open when an ancestor closes', async () => {
+    assert.deepEqual(await recover('<r>\n<entry><a>1</entry>\n<entry><b>2</b></entry>\n</r>'), {
+        roots: ['<r><entry><a>1</a></entry><entry><b>2</b></entry></r>'],
+        warnings: ['AUTO_CLOSED_ELEMENT@2:12'],
+    });
+});
+
+test('closes elements left open at the end of input', async () => {
+    const { roots, warnings } = await recover('<r><a>text');
+    assert.deepEqual(roots, ['<r><a>text</a></r>']);
+    assert.deepEqual(warnings.map((w) => w.split('@')[0]), ['AUTO_CLOSED_ELEMENT', 'AUTO_CLOSED_ELEMENT']);
+});
+
+test('drops end tags without an open element', async () => {
+    assert.deepEqual(await recover('<r><a/></b>\n</a></r>'), {
+        roots: ['<r><a/></r>'],
+        warnings: ['STRAY_END_TAG@1:8', 'STRAY_END_TAG@2:1'],
+    });
+});
+
+test('accepts unquoted and valueless attributes and keeps the first of duplicates', async () => {
+    assert.deepEqual(await recover('<r a=1 checked b="x" b="y"/>'), {
+        roots: ['<r a="1" checked="" b="x"/>'],
+        warnings: ['MALFORMED_ATTRIBUTE@1:1', 'MALFORMED_ATTRIBUTE@1:1', 'DUPLICATE_ATTRIBUTE@1:1'],
+    });
+});
+
+test('keeps a bare ampersand or a stray < as text', async () => {
+    assert.deepEqual(await recover('<r>fish & chips; a < b</r>'), {
+        roots: ['<r>fish &amp; chips; a &lt; b</r>'],
+        warnings: ['BARE_AMPERSAND@1:9', 'INVALID_NAME@1:20'],
+    });
+});
+
+test('parses elements after the root and drops text outside it', async () => {
+    assert.deepEqual(await recover('<a>1</a>\ntext\n<b>2</b>'), {
+        roots: ['<a>1</a>', '<b>2</b>'],
+        warnings: ['TEXT_OUTSIDE_ROOT@1:9', 'EXTRA_ROOT_ELEMENT@3:1'],
+    });
+});
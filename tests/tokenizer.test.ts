@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Readable } from 'stream';
+import { parseXML, XMLParserProps } from '../xml-peruse';
+
+// The tokenizer scans raw bytes a chunk at a time, so every token kind must come out the
+// same wherever the chunks split it, including inside multi-byte characters.
+
+const k_DOCUMENT = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE dict [
+<!ELEMENT dict (entry*)>
+<!ATTLIST gloss xml:lang CDATA "eng">
+<!ENTITY n "noun (common)">
+]>
+<!-- 辞書 -->
+<dict>
+<entry id="1" note='a > b'>
+<keb>日本語</keb>
+<pos>&n;</pos>
+<gloss xml:lang="ger">Sprache &amp; Schrift</gloss>
+<text><![CDATA[<raw> & ]] text]]></text>
+<?render fast?>
+<empty/>
+</entry>
+</dict>
+`;
+
+// Everything reported while parsing `chunks`, in order
+async function collect(chunks: Buffer[]): Promise<string[]> {
+    const events: string[] = [];
+    const record = (kind: string) => (value: unknown) => { events.push(kind + ' ' + JSON.stringify(value)) };
+    const props: XMLParserProps<string, string> = {
+        onDeclaration: record('declaration'),
+        onDoctype: record('doctype'),
+        onComment: record('comment'),
+        onProcessingInstruction: record('pi'),
+        onElement: record('element'),
+    };
+    await parseXML(Readable.from(chunks), props);
+    return events;
+}
+
+test('parses the fixture', async () => {
+    const events = await collect([Buffer.from(k_DOCUMENT)]);
+    const root = events.at(-1)!;
+    assert.ok(root.startsWith('element '));
+    assert.deepEqual(JSON.parse(root.slice('element '.length)), {
+        tagName: 'dict',
+        children: [{
+            tagName: 'entry',
+            attributes: { id: '1', note: 'a > b' },
+            children: [
+                { tagName: 'keb', children: ['日本語'] },
+                { tagName: 'pos', children: ['noun (common)'] },
+                { tagName: 'gloss', attributes: { 'xml:lang': 'ger' }, children: ['Sprache & Schrift'] },
+                { tagName: 'text', children: ['<raw> & ]] text'] },
+                { tagName: 'empty' },
+            ],
+        }],
+    });
+    assert.ok(events.includes('comment "<!-- 辞書 -->"'));
+    assert.ok(events.includes('pi {"tagName":"?","target":"render","data":"fast"}'));
+});
+
+test('parses the same at every chunk split', async () => {
+    const bytes = Buffer.from(k_DOCUMENT);
+    const expected = await collect([bytes]);
+    for (let i = 1; i < bytes.length; i++) {
+        const events = await collect([bytes.subarray(0, i), bytes.subarray(i)]);
+        assert.deepEqual(events, expected, `split at byte ${i}`);
+    }
+});
+
+test('parses the same one byte at a time', async () => {
+    const bytes = Buffer.from(k_DOCUMENT);
+    const expected = await collect([bytes]);
+    const chunks = Array.from(bytes, (b) => Buffer.from([b]));
+    assert.deepEqual(await collect(chunks), expected);
+});
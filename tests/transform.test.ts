@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createXMLTransform, XMLTransformOptions } from '../xml-peruse';
+
+// Output of `input` through a transform with `options`
+async function transform(input: string, options: XMLTransformOptions): Promise<string> {
+    let out = '';
+    await pipeline(Readable.from([input]), createXMLTransform(options), async (chunks: AsyncIterable<Buffer>) => {
+        for await (const chunk of chunks) out += chunk.toString('utf-8');
+    });
+    return out;
+}
+
+test('copies unmatched input byte for byte', async () => {
+    const input = '<?xml version="1.0"?>\n<!-- c -->\n<r>\n  <a x = "1"/>\n</r>\n';
+    assert.equal(await transform(input, { edits: { b: () => null } }), input);
+});
+
+test('replaces and deletes matched elements', async () => {
+    const input = '<r> <a>1</a> <b/> <a>2</a> </r>';
+    const out = await transform(input, {
+        edits: {
+            a: (el) => ({ ...el, attributes: { seen: 'yes' } }),
+            b: () => null,
+        },
+    });
+    assert.equal(out, '<r> <a seen="yes">1</a>  <a seen="yes">2</a> </r>');
+});
+
+test('applies nested edits before the outer one', async () => {
+    const input = '<r><a> <b/> <c>1</c> <d>2</d> </a></r>';
+    const out = await transform(input, {
+        edits: {
+            b: () => null,
+            c: () => '<e/>text',
+            d: (el) => ({ ...el, attributes: { n: '2' } }),
+            a: (el) => el,
+        },
+    });
+    assert.equal(out, '<r><a>  <e/>text <d n="2">2</d> </a></r>');
+});
+
+test('keeps nested edits under an outer match left untouched', async () => {
+    const input = '<r><a> <b/> <c/> </a></r>';
+    const out = await transform(input, { edits: { b: () => null, a: () => undefined } });
+    assert.equal(out, '<r><a>  <c/> </a></r>');
+});
+
+test('writes entity references back as they were', async () => {
+    const input = '<!DOCTYPE r SYSTEM "ext.dtd" [<!ENTITY e "E">]><r><a x="&ext; &amp;">&ext; &e; t</a></r>';
+    assert.equal(await transform(input, { edits: { a: (el) => el } }), input);
+});
+
+test('parses strings from nested edits with the document\'s entities', async () => {
+    const input = '<!DOCTYPE r [<!ENTITY e "E">]><r><a><b/></a></r>';
+    const out = await transform(input, { edits: { b: () => '<c>&e;</c>', a: (el) => el } });
+    assert.equal(out, '<!DOCTYPE r [<!ENTITY e "E">]><r><a><c>&e;</c></a></r>');
+});
+
+test('rejects malformed strings from edits, nested or not', async () => {
+    const unclosed = () => '<unclosed>';
+    await assert.rejects(transform('<r><b><a/></b></r>', { edits: { a: unclosed } }), { code: 'MISMATCHED_TAG' });
+    await assert.rejects(transform('<r><b><a/></b></r>', { edits: { a: unclosed, b: (el) => el } }), { code: 'MISMATCHED_TAG' });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseXML, XMLValidationError } from '../xml-peruse';
+
+const k_DTD = `<!DOCTYPE dict [
+<!ELEMENT dict (entry+)>
+<!ELEMENT entry (head, sense*, note?)>
+<!ATTLIST entry id ID #REQUIRED see IDREFS #IMPLIED status (new|old) "new">
+<!ELEMENT head (#PCDATA)>
+<!ELEMENT sense (#PCDATA|em)*>
+<!ELEMENT em (#PCDATA)>
+<!ELEMENT note EMPTY>
+]>
+`;
+
+// Codes and lines of the violations in `body`, in the order they're reported
+async function violations(body: string): Promise<string[]> {
+    const errors: XMLValidationError[] = [];
+    await parseXML(Buffer.from(k_DTD + body), {
+        validate: 'report',
+        onValidationError: (err) => { errors.push(err) },
+    });
+    return errors.map((err) => `${err.code}:${err.position.line}`);
+}
+
+test('accepts a document that follows its DOCTYPE', async () => {
+    assert.deepEqual(await violations('<dict>\n'
+        + '<entry id="a" status=" old "><head>A</head><sense>x <em>y</em></sense><note/></entry>\n'
+        + '<entry id="b" see="a  c"><head>B</head></entry>\n'
+        + '<entry id="c"><head>C</head>\n<sense/><sense/></entry>\n'
+        + '</dict>'), []);
+});
+
+test('checks children against the content model as they arrive', async () => {
+    assert.deepEqual(await violations('<dict>\n'
+        + '<entry id="a"><sense/><head/></entry>\n'
+        + '<entry id="b"><head/><note>text</note></entry>\n'
+        + '<entry id="c">\n</entry>\n'
+        + '<entry id="d"><head>D</head><sense><head/></sense><other/></entry>\n'
+        + '</dict>'), [
+        'INVALID_CONTENT:11',
+        'INVALID_CONTENT:12',
+        'INCOMPLETE_CONTENT:14',
+        'INVALID_CONTENT:15',
+        'INVALID_CONTENT:15',
+        'UNDECLARED_ELEMENT:15',
+    ]);
+});
+
+test('checks attributes, IDs and IDREFs', async () => {
+    assert.deepEqual(await violations('<dict>\n'
+        + '<entry see="b z"><head/></entry>\n'
+        + '<entry id="b" status="gone"><head/></entry>\n'
+        + '<entry id="b" lang="en"><head/></entry>\n'
+        + '</dict>'), [
+        'MISSING_ATTRIBUTE:11',
+        'INVALID_ATTRIBUTE_VALUE:12',
+        'DUPLICATE_ID:13',
+        'UNDECLARED_ATTRIBUTE:13',
+        // Reported where the reference is, once the document is complete
+        'UNKNOWN_IDREF:11',
+    ]);
+});
+
+test('checks the root against the DOCTYPE', async () => {
+    assert.deepEqual(await violations('<entry id="a"><head/></entry>'), ['INVALID_ROOT:10']);
+});
+
+test('rejects with the first violation in strict mode', async () => {
+    const onValidationError = () => assert.fail('not called in strict mode');
+    await assert.rejects(parseXML(Buffer.from(k_DTD + '<dict><entry id="a"><note/></entry></dict>'), {
+        validate: 'strict',
+        onValidationError,
+    }), { code: 'INVALID_CONTENT' });
+});
+
+test('leaves documents without a DOCTYPE unchecked', async () => {
+    await parseXML(Buffer.from('<dict><anything/></dict>'), {
+        validate: 'strict',
+    });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Readable } from 'stream';
+import { parseXML, parseXMLString } from '../xml-peruse';
+
+test('rejects documents without exactly one root element', async () => {
+    const cases: [string, string][] = [
+        ['', 'NO_ROOT_ELEMENT'],
+        ['<!-- only a comment -->', 'NO_ROOT_ELEMENT'],
+        ['<a/><b/>', 'EXTRA_ROOT_ELEMENT'],
+        ['text<a/>', 'TEXT_OUTSIDE_ROOT'],
+        ['<a/>junk', 'TEXT_OUTSIDE_ROOT'],
+        ['<r>< a/></r>', 'INVALID_NAME'],
+        ['<r>a < b</r>', 'INVALID_NAME'],
+    ];
+    for (const [xml, code] of cases) {
+        await assert.rejects(parseXMLString(xml), { code }, JSON.stringify(xml));
+    }
+});
+
+test('locates a bare ampersand at the ampersand', async () => {
+    await assert.rejects(parseXMLString('<r>\n  a & b <c/></r>'), {
+        code: 'BARE_AMPERSAND',
+        position: { line: 2, column: 5, offset: 8 },
+    });
+});
+
+test('rejects a DOCTYPE after the root element or a second one', async () => {
+    const cases = ['<a><!DOCTYPE a></a>', '<a/><!DOCTYPE a>', '<!DOCTYPE a><!DOCTYPE a><a/>'];
+    for (const xml of cases) {
+        await assert.rejects(parseXMLString(xml), { code: 'MISPLACED_DOCTYPE' }, xml);
+    }
+});
+
+test('accepts a DOCTYPE split across chunks', async () => {
+    const bytes = Buffer.from('<!DOCTYPE a [<!ENTITY e "x">]><a>&e;</a>');
+    for (let i = 1; i < bytes.length; i++) {
+        const status = await parseXML(Readable.from([bytes.subarray(0, i), bytes.subarray(i)]));
+        assert.equal(status, 'completed', `split at byte ${i}`);
+    }
+});
+
+test('rejects an attribute without a name, or drops it when recovering', async () => {
+    await assert.rejects(parseXMLString('<a ="x"/>'), { code: 'MALFORMED_ATTRIBUTE' });
+    let attributes: unknown = undefined;
+    const codes: string[] = [];
+    await parseXMLString('<a ="x" b="1"/>', {
+        recover: true,
+        onWarning: (warning) => { codes.push(warning.code) },
+        onElement: (el) => { attributes = el.attributes },
+    });
+    assert.deepEqual(codes, ['MALFORMED_ATTRIBUTE']);
+    assert.deepEqual(attributes, { b: '1' });
+});
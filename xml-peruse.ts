@@ -1,25 +1,50 @@
 import * as fs from 'fs'
+import * as os from 'os';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
 import { buffer } from 'stream/consumers';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { formatDtdDecl, serializeXML, XMLSerializeOptions } from './xml-writer';
 
 type XMLAttrKey = string; // enum-like
 type XMLTagName = string;
 export type XMLAttrObj = Partial<Record<XMLAttrKey, string>>;
 
 // Represents <?xml ?> declaration
-type XMLDeclaration = {
+export type XMLDeclaration = {
     version?: string;
     encoding?: string;
     standalone?: string;
 };
 
+// Parsed `contentModel` of an <!ELEMENT> declaration
+// `EMPTY`, `ANY`: as declared
+// `mixed`: text, optionally interleaved with the listed elements: (#PCDATA | a | b)*
+// `children`: element content, e.g. (head, (p | list)*, foot?)
+export type XMLContentModel =
+    | { kind: 'EMPTY' }
+    | { kind: 'ANY' }
+    | { kind: 'mixed'; names: string[] }
+    | { kind: 'children'; particle: XMLContentParticle };
+export type XMLContentQuantifier = '' | '?' | '*' | '+';
+export type XMLContentParticle = { quantifier: XMLContentQuantifier } & (
+    | { kind: 'name'; name: string }
+    | { kind: 'seq' | 'choice'; particles: XMLContentParticle[] }
+);
+
 type DtdCommonHeader = {
     tagName: string;
     source?: string;
+    // With `locations`, except for declarations read from the external subset
+    position?: XMLSourcePosition;
 }
 type Dtd_ELEMENT = DtdCommonHeader & {
     tagName: '!ELEMENT';
     elementName: string;
     contentModel?: string;
+    // `contentModel` parsed. Unset if it's malformed and parsing in `recover` mode.
+    model?: XMLContentModel;
 };
 
 type Dtd_ATTLIST_Attr = {
@@ -36,30 +61,65 @@ type Dtd_ATTLIST = DtdCommonHeader & {
     attributes: Dtd_ATTLIST_Attr[];
 };
 
-type Dtd_ENTITY = DtdCommonHeader & {
+// PUBLIC "publicId" "systemId" or SYSTEM "systemId"
+export type XMLExternalId = {
+    publicId?: string;
+    systemId: string;
+};
+
+type Dtd_ENTITY = DtdCommonHeader & Partial<XMLExternalId> & {
     tagName: '!ENTITY',
     key: string;
-    value: string;
+    value: string; // '' for external entities
+    parameter?: boolean; // <!ENTITY % key ...>
+    notation?: string; // NDATA notation of an unparsed entity
 };
 
 type Dtd_NOTATION = DtdCommonHeader & {
     tagName: '!NOTATION',
-    // to implement
+    name: string;
+    publicId?: string;
+    systemId?: string;
 }
 export type XMLDtdDecl = Dtd_ELEMENT | Dtd_ATTLIST | Dtd_ENTITY | Dtd_NOTATION;
 
-type XMLDoctype = {
+export type XMLDoctype = {
     rootTagName: string; // name of root tag
-    public?: string;
-    external?: string;
+    public?: string; // public identifier
+    external?: string; // system identifier of the external subset
     internal?: XMLDtdDecl[];
+    // Declarations read from the external subset, when `resolveEntity` loaded it
+    externalSubset?: XMLDtdDecl[];
 }
 
+// Loads the text of an external DTD subset or external parameter entity. Returns
+// undefined to skip it.
+export type XMLEntityResolver = (id: XMLExternalId) => string | Uint8Array | undefined;
+
+// A tag or attribute name resolved against the xmlns declarations in scope, when
+// parsing with `namespaces`. `namespaceURI` is unset for names in no namespace.
+export type XMLQName = {
+    prefix: string; // '' when unprefixed
+    localName: string;
+    namespaceURI?: string;
+};
+
+// The `{namespaceURI}localName` form of a name, or just the local name if it's in no
+// namespace. `onElements` handlers can be keyed by it.
+export const expandedName = (name: XMLQName): string =>
+    name.namespaceURI == undefined ? name.localName : `{${name.namespaceURI}}${name.localName}`;
+
 // Represents an XML opening tag
 type XMLTagProps = {
     source?: string;
     tagName: XMLTagName;
     attributes?: XMLAttrObj;
+    // Resolved names of the tag and of each attribute, when parsing with `namespaces`
+    name?: XMLQName;
+    attributeNames?: Partial<Record<XMLAttrKey, XMLQName>>;
+    // Values of NMTOKENS, IDREFS and ENTITIES attributes split into their tokens, with
+    // `attributeDefaults`
+    attributeTokens?: Partial<Record<XMLAttrKey, string[]>>;
 };
 
 
@@ -74,6 +134,8 @@ type ParamXMLTagProps<
     source?: string;
     tagName: PTagName;
     attributes?: ParamXMLAttrObj<PAttrKey>;
+    attributeNames?: Partial<Record<PAttrKey, XMLQName>>;
+    attributeTokens?: Partial<Record<PAttrKey, string[]>>;
 }
 
 // Convert `type` tag with props to XMLProps struct
@@ -89,9 +151,34 @@ const as_xml_props = (
     return props;
 }
 
-type XMLChild = XMLElement | string;
+// A reference to a DTD-declared entity, left in place of its text when parsing with
+// `entities: 'report'`. `value` is the declared replacement text, unset for entities not
+// declared in the internal subset.
+export type XMLEntityRef = {
+    tagName: '&';
+    name: string;
+    value?: string;
+};
+
+// A CDATA section, kept as its own child when parsing with `keepCData`
+export type XMLCData = {
+    tagName: '![CDATA[';
+    text: string;
+};
+
+// A processing instruction other than the <?xml ?> declaration, e.g.
+// <?xml-stylesheet href="style.xsl"?>. Kept as a child with `keepProcessingInstructions`.
+export type XMLProcessingInstruction = {
+    tagName: '?';
+    target: string;
+    data: string;
+};
+
+type XMLChild = XMLElement | XMLEntityRef | XMLCData | XMLProcessingInstruction | string;
 export type XMLElement = XMLTagProps & {
     children?: XMLChild[]
+    location?: XMLSourceRange;
+    childPositions?: XMLSourcePosition[];
 };
 
 function xmlEmplaceChild<
@@ -108,47 +195,353 @@ function xmlEmplaceChild<
 type ParamXMLChild<
     PTagName extends XMLTagName,
     PAttrKey extends XMLAttrKey
-> = ParamXMLElement<PTagName, PAttrKey> | string;
+> = ParamXMLElement<PTagName, PAttrKey> | XMLEntityRef | XMLCData | XMLProcessingInstruction | string;
 
 export type ParamXMLElement<
     PTagName extends XMLTagName,
     PAttrKey extends XMLAttrKey
 > = ParamXMLTagProps<PTagName, PAttrKey> & {
     children?: ParamXMLChild<PTagName, PAttrKey>[];
+    // With `locations`: where the element is, and where each of its children starts, by
+    // index into `children`. Text starts where the run of text it came from does.
+    location?: XMLSourceRange;
+    childPositions?: XMLSourcePosition[];
+};
+
+// Errors
+export type XMLParseErrorCode =
+    | 'UNEXPECTED_TOKEN'       // markup that can't appear at this point
+    | 'MISMATCHED_TAG'         // end tag that doesn't match the open element
+    | 'MALFORMED_ATTRIBUTE'
+    | 'DUPLICATE_ATTRIBUTE'
+    | 'MISPLACED_DECLARATION'  // <?xml ?> anywhere but the start of the document
+    | 'MISPLACED_DOCTYPE'      // DOCTYPE after the root element has started, or a second one
+    | 'UNEXPECTED_EOF'         // input ended inside an element or other markup
+    | 'INVALID_NAME'           // '<' not followed by a valid tag name
+    | 'NO_ROOT_ELEMENT'        // document that ends without any element
+    | 'EXTRA_ROOT_ELEMENT'     // element after the root element has ended
+    | 'TEXT_OUTSIDE_ROOT'      // text or CDATA before or after the root element
+    | 'BARE_AMPERSAND'         // '&' that doesn't start a reference
+    | 'ENTITY_EXPANSION_LIMIT' // entity references that expand to far more text than the input
+    | 'UNBOUND_PREFIX'         // namespace prefix with no xmlns declaration in scope
+    | 'MALFORMED_DTD'          // declaration in the DTD that can't be parsed
+    | 'IO_ERROR'               // the source stream failed
+    | 'INVALID_CHECKPOINT'     // `resumeFrom` checkpoint that doesn't fit the document
+    | 'INTERNAL'               // parser state became inconsistent
+    | XMLValidationErrorCode;  // with `validate: 'strict'`
+
+// Ways a document can break the declarations of its DOCTYPE, with `validate`
+export type XMLValidationErrorCode =
+    | 'INVALID_ROOT'           // root element isn't the one the DOCTYPE names
+    | 'UNDECLARED_ELEMENT'
+    | 'INVALID_CONTENT'        // child element or text that the content model doesn't allow
+    | 'INCOMPLETE_CONTENT'     // element that ends before its content model is satisfied
+    | 'UNDECLARED_ATTRIBUTE'
+    | 'MISSING_ATTRIBUTE'      // #REQUIRED attribute that isn't given
+    | 'INVALID_ATTRIBUTE_VALUE' // value outside an enumerated type
+    | 'DUPLICATE_ID'           // ID attribute value used more than once
+    | 'UNKNOWN_IDREF';         // IDREF(S) value with no element of that ID
+
+// Problems fixed up in `recover` mode
+export type XMLParseWarningCode =
+    | 'AUTO_CLOSED_ELEMENT'    // element left open when an ancestor's end tag arrived
+    | 'STRAY_END_TAG'          // end tag without an open element, dropped
+    | 'MALFORMED_ATTRIBUTE'    // unquoted or valueless attribute, kept, or one without a name, dropped
+    | 'DUPLICATE_ATTRIBUTE'    // repeated attribute, first value kept
+    | 'BARE_AMPERSAND'         // '&' that doesn't start a reference, kept as text
+    | 'EXTRA_ROOT_ELEMENT'     // element after the root element, parsed like the root
+    | 'TEXT_OUTSIDE_ROOT'      // text or CDATA outside the root element, dropped
+    | 'INVALID_NAME'           // '<' not followed by a valid tag name, kept as text
+    | 'UNBOUND_PREFIX'         // undeclared namespace prefix, name left without a namespace
+    | 'MALFORMED_DTD';         // unparseable content model, left without a `model`
+
+// `line` and `column` are 1-based, `offset` is the 0-based byte offset in the source
+export type XMLSourcePosition = {
+    line: number;
+    column: number;
+    offset: number;
+};
+
+// From the `<` of an element's start tag to just past the `>` of its end tag
+export type XMLSourceRange = {
+    start: XMLSourcePosition;
+    end: XMLSourcePosition;
+};
+
+type XMLParseErrorContext = {
+    position: XMLSourcePosition;
+    path: string[];
+    snippet: string;
+};
+
+export type XMLParseWarning = XMLParseErrorContext & {
+    code: XMLParseWarningCode;
+    message: string;
+};
+
+export type XMLValidationError = XMLParseErrorContext & {
+    code: XMLValidationErrorCode;
+    message: string;
 };
 
+export class XMLParseError extends Error {
+    readonly code: XMLParseErrorCode;
+    // Description of the problem, without the location
+    readonly reason: string;
+    readonly position?: XMLSourcePosition;
+    // Tag names of the open elements, from the root down
+    readonly path: string[];
+    // Input surrounding the error
+    readonly snippet?: string;
+    readonly cause?: unknown;
+
+    constructor(
+        code: XMLParseErrorCode,
+        reason: string,
+        context?: XMLParseErrorContext,
+        cause?: unknown
+    ) {
+        let message = reason;
+        if (context) {
+            const { line, column, offset } = context.position;
+            message += ` at line ${line}, column ${column} (byte ${offset})`;
+            if (context.path.length > 0) message += ` in /${context.path.join('/')}`;
+        }
+        super(message);
+        this.name = 'XMLParseError';
+        this.code = code;
+        this.reason = reason;
+        this.position = context?.position;
+        this.path = context?.path ?? [];
+        this.snippet = context?.snippet;
+        this.cause = cause;
+    }
+}
+
+// Bindings every document starts with
+const k_XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+const k_XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/';
+const k_DEFAULT_NAMESPACES: Map<string, string> = new Map([
+    ['xml', k_XML_NAMESPACE],
+    ['xmlns', k_XMLNS_NAMESPACE],
+]);
+
 // Helper functions
-// Take a stripped start tag (A for <A> or <A/ >) and get its attrs
+const isXMLWhitespace = (c: string | undefined): boolean =>
+    c == ' ' || c == '\t' || c == '\n' || c == '\r';
+
+// Take a stripped start tag (A for <A> or <A/ >) and get its attrs.
+// Attribute values may be single- or double-quoted and may contain whitespace or `=`;
+// whitespace is allowed around `=` and between attributes. Throws on malformed or
+// duplicate attributes, unless `recover` is given: then unquoted and valueless
+// attributes are accepted, duplicates keep their first value, and each fix is reported.
 function getTagAttrsFromStripped<
     PTagName extends XMLTagName = XMLTagName,
     PAttrKey extends XMLAttrKey = XMLAttrKey
->(stripped: string): [PTagName, ParamXMLAttrObj<PAttrKey> | undefined] {
-    let tagType = stripped;
+>(
+    stripped: string,
+    recover?: (code: XMLParseWarningCode, reason: string) => void
+): [PTagName, ParamXMLAttrObj<PAttrKey> | undefined] {
+    const len = stripped.length;
+    let i = 0;
+    const skipWhitespace = () => {
+        while (i < len && isXMLWhitespace(stripped[i])) i++;
+    }
+
+    skipWhitespace();
+    const nameStart = i;
+    while (i < len && !isXMLWhitespace(stripped[i])) i++;
+    const tagType = stripped.slice(nameStart, i);
+
+    const malformed = (attrKey: string, problem: string) => {
+        const reason = `Malformed attribute '${attrKey}' in <${tagType}>: ${problem}`;
+        if (!recover) throw new XMLParseError('MALFORMED_ATTRIBUTE', reason);
+        recover('MALFORMED_ATTRIBUTE', reason);
+    }
+
     const tagAttrs: ParamXMLAttrObj<PAttrKey> = {};
     let hasAttrs = false;
-    if (stripped.includes('=')) {
-        const parts = stripped.split(' ');
-        // has props, need to unpack them
-        tagType = parts[0];
-        for (let i = 1; i < parts.length; i++) {
-            const attrSrc = parts[i];
-            const kv = attrSrc.split("=");
-            const attrKey = kv[0];
-            const attrVal = kv[1].slice(1, -1);
+    while (true) {
+        skipWhitespace();
+        if (i >= len) break;
+
+        const keyStart = i;
+        while (i < len && stripped[i] != '=' && !isXMLWhitespace(stripped[i])) i++;
+        const attrKey = stripped.slice(keyStart, i);
+        if (!attrKey) malformed(attrKey, 'missing name');
+
+        let attrVal = '';
+        skipWhitespace();
+        if (stripped[i] != '=') {
+            malformed(attrKey, "expected '='");
+        }
+        else {
+            i++;
+            skipWhitespace();
+
+            const quote = stripped[i];
+            if (quote != '"' && quote != "'") {
+                malformed(attrKey, 'value must be quoted');
+                const valueStart = i;
+                while (i < len && !isXMLWhitespace(stripped[i])) i++;
+                attrVal = stripped.slice(valueStart, i);
+            }
+            else {
+                let valueEnd = stripped.indexOf(quote, i + 1);
+                if (valueEnd < 0) {
+                    malformed(attrKey, 'unterminated value');
+                    valueEnd = len;
+                }
+                attrVal = stripped.slice(i + 1, valueEnd);
+                i = valueEnd + 1;
+                if (i < len && !isXMLWhitespace(stripped[i])) {
+                    malformed(attrKey, 'missing whitespace after value');
+                }
+            }
+        }
 
-            // @ts-ignore
-            tagAttrs[attrKey] = attrVal;
-            hasAttrs = true;
+        // A value without a name is dropped when recovering
+        if (!attrKey) continue;
+        if (Object.prototype.hasOwnProperty.call(tagAttrs, attrKey)) {
+            const reason = `Duplicate attribute '${attrKey}' in <${tagType}>`;
+            if (!recover) throw new XMLParseError('DUPLICATE_ATTRIBUTE', reason);
+            recover('DUPLICATE_ATTRIBUTE', reason);
+            continue;
         }
+        // @ts-ignore
+        tagAttrs[attrKey] = attrVal;
+        hasAttrs = true;
     }
     const attrs = hasAttrs ? tagAttrs : undefined;
     return [tagType as PTagName, attrs];
 }
 
+// How references to DTD-declared entities are handled. Predefined entities (&amp; etc)
+// and character references are always decoded.
+// `expand`: replace the reference with its declared value
+// `keep`: leave the reference as-is, e.g. "&uk;"
+// `report`: split text around the reference and emit an XMLEntityRef child for it.
+//           Attribute values keep the reference as-is.
+export type XMLEntityMode = 'expand' | 'keep' | 'report';
+
+// How whitespace in text content is handled. Elements with xml:space="preserve", and
+// their descendants, always preserve it.
+// `trim`: trim each text run and drop runs that are only whitespace
+// `collapse`: collapse whitespace sequences into a single space and drop runs that are
+//             only whitespace
+// `preserve`: keep text exactly as written, including whitespace-only runs
+export type XMLWhitespaceMode = 'trim' | 'collapse' | 'preserve';
+
+const k_PREDEFINED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+};
+const k_ENTITY_REF_REGEX = /&(?:#x([0-9a-fA-F]+)|#([0-9]+)|([A-Za-z_:][\w.:-]*));/g;
+// Guards against entities whose values reference each other in a loop
+const k_ENTITY_MAX_DEPTH = 16;
+// Expanding entities may produce this many characters, or this many per byte of input if
+// that's more, so nested references can't blow up to gigabytes ("billion laughs")
+const k_ENTITY_EXPANSION_MIN = 1 << 20;
+const k_ENTITY_EXPANSION_RATIO = 16;
+
+// Entities declared in the internal DTD subset, by name, with their values as expanded
+// once referenced, and the characters expanding references has produced so far
+type XMLEntityTable = {
+    declared: Map<string, string>;
+    expanded: Map<string, string>;
+    produced: number;
+    // Input read so far, in bytes
+    inputLength: () => number;
+};
+
+// Count `length` more expanded characters against the limit
+function chargeExpansion(table: XMLEntityTable, length: number) {
+    table.produced += length;
+    const limit = Math.max(k_ENTITY_EXPANSION_MIN, k_ENTITY_EXPANSION_RATIO * table.inputLength());
+    if (table.produced > limit) {
+        throw new XMLParseError('ENTITY_EXPANSION_LIMIT',
+            `Entity references expand to more than ${limit} characters`);
+    }
+}
+
+const k_REFERENCE_AT_REGEX = /&(?:#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_:][\w.:-]*);/y;
+
+// Index of the first `&` in `text` from `from` on that doesn't start a reference, or -1
+function findBareAmpersand(text: string, from: number = 0): number {
+    for (let i = text.indexOf('&', from); i >= 0; i = text.indexOf('&', i + 1)) {
+        k_REFERENCE_AT_REGEX.lastIndex = i;
+        if (!k_REFERENCE_AT_REGEX.test(text)) return i;
+    }
+    return -1;
+}
+
+// Decode the references in a text or attribute value. Undeclared entities are left as-is,
+// or reported without a value.
+// An `&` that doesn't start a reference is kept literally after calling `onBareAmpersand`,
+// which may throw instead. Entity values are checked for those when they're declared.
+function decodeEntities(
+    text: string,
+    table: XMLEntityTable,
+    mode: XMLEntityMode,
+    onBareAmpersand?: () => void,
+    depth: number = 0
+): (string | XMLEntityRef)[] {
+    if (!text.includes('&')) return [text];
+
+    const parts: (string | XMLEntityRef)[] = [];
+    let str = '';
+    let lastIndex = 0;
+    const appendLiteral = (literal: string) => {
+        if (onBareAmpersand && literal.includes('&')) onBareAmpersand();
+        str += literal;
+    }
+    for (const match of text.matchAll(k_ENTITY_REF_REGEX)) {
+        const [ref, hex, dec, name] = match;
+        appendLiteral(text.slice(lastIndex, match.index));
+        lastIndex = match.index! + ref.length;
+
+        if (hex || dec) {
+            const code = parseInt(hex ?? dec, hex ? 16 : 10);
+            str += code <= 0x10FFFF ? String.fromCodePoint(code) : ref;
+        }
+        else if (name in k_PREDEFINED_ENTITIES) {
+            str += k_PREDEFINED_ENTITIES[name];
+        }
+        else if (mode == 'report' && !table.declared.has(name)) {
+            if (str) parts.push(str);
+            parts.push({ tagName: '&', name });
+            str = '';
+        }
+        else if (!table.declared.has(name) || mode == 'keep' || depth >= k_ENTITY_MAX_DEPTH) {
+            str += ref;
+        }
+        else {
+            let value = table.expanded.get(name);
+            if (value == undefined) {
+                value = decodeEntities(table.declared.get(name)!, table, 'expand', undefined, depth + 1)[0] as string;
+                table.expanded.set(name, value);
+            }
+            chargeExpansion(table, value.length);
+            if (mode == 'report') {
+                if (str) parts.push(str);
+                parts.push({ tagName: '&', name, value });
+                str = '';
+            }
+            else {
+                str += value;
+            }
+        }
+    }
+    appendLiteral(text.slice(lastIndex));
+    if (str || parts.length == 0) parts.push(str);
+    return parts;
+}
+
 function trimQuotes(str: string) {
     let mystr = str;
-    if (mystr.at(0) == '"') mystr = mystr.substring(1);
-    if (mystr.at(-1) == '"') mystr = mystr.slice(0, -1);
+    const quote = mystr.at(0);
+    if (quote != '"' && quote != "'") return mystr;
+    mystr = mystr.substring(1);
+    if (mystr.at(-1) == quote) mystr = mystr.slice(0, -1);
     return mystr;
 }
 
@@ -156,6 +549,7 @@ function splitAroundBoundaries(content: string): string[] {
     const k_BUF_SIZE = 1024;
     const closeTag = {
         '"': '"',
+        "'": "'",
         '(': ')',
     };
     const trimmed = content.trim();
@@ -177,7 +571,7 @@ function splitAroundBoundaries(content: string): string[] {
     }
 
     for (const char of content) {
-        if (buf[0] == '"' || buf[0] == '(') {
+        if (buf[0] == '"' || buf[0] == "'" || buf[0] == '(') {
             const prevChar = buf[bufLength - 1];
             if (bufLength > 1 && char == closeTag[buf[0]]) {
                 res.push(flushCharBuffer() + char);
@@ -190,7 +584,7 @@ function splitAroundBoundaries(content: string): string[] {
         else if (char.match(/\s/)) {
             res.push(flushCharBuffer());
         }
-        else if (char == '"' || char == '(') {
+        else if (char == '"' || char == "'" || char == '(') {
             res.push(flushCharBuffer());
             buf[bufLength++] = char;
         }
@@ -198,528 +592,2924 @@ function splitAroundBoundaries(content: string): string[] {
             buf[bufLength++] = char;
         }
     }
+    res.push(flushCharBuffer());
 
     return res.filter(s => s.length > 0);
 }
 
-export type XMLParserProps<
-    PTagName extends XMLTagName,
-    PAttrKey extends XMLAttrKey
-> = {
-    skipRoot?: boolean,
-    onDeclaration?: (decl: XMLDeclaration) => void,
-    onDoctype?: (dc: XMLDoctype) => void,
-    // onElements?: Partial<Record<
-    //     PTagName,
-    //     (k: ParamXMLElement<PTagName, PAttrKey>) => void
-    // >>,
-    onElement?: (el: ParamXMLElement<PTagName, PAttrKey>) => void;
-    onOpenTag?: (openTag: ParamXMLTagProps<PTagName, PAttrKey>) => void;
-    onCloseTag?: (closeTag: PTagName) => void;
-    onSelfcloseTag?: (scTag: ParamXMLTagProps<PTagName, PAttrKey>) => void;
-    onDtdDecl?: (dtd: XMLDtdDecl) => void;
-    onComment?: (cmt: string) => void;
-    addSource?: Partial<Record<PTagName, boolean> & {
-        '!ELEMENT': boolean,
-        '!ENTITY': boolean,
-        '!ATTLIST': boolean,
-        '!NOTATION': boolean,
-    }>;
-};
-
-// Function handlers for `parseXML` - basically a function for each tag type
-
-const k_BUF_MAX_SIZE = 1024 * 64;
-const k_COMMENT_MAX_LENGTH = 1024;
-export async function parseXML<
-    PTagName extends XMLTagName = XMLTagName,
-    PAttrKey extends XMLAttrKey = XMLAttrKey
->(
-    filePath: string,
-    props: XMLParserProps<PTagName, PAttrKey> = {}
-): Promise<void> {
-    const p_getTagAttrsFromStripped = getTagAttrsFromStripped<PTagName, PAttrKey>;
-    // Types
-    type PTagProps = ParamXMLTagProps<PTagName, PAttrKey>;
-    type PAttrObj = ParamXMLAttrObj<PAttrKey>;
-    type PElement = ParamXMLElement<PTagName, PAttrKey>;
-
-    // Create filestream
-    const fileStream = fs.createReadStream(filePath);
-    // const fileStream = fs.createReadStream(filePath);
+export function parseContentModel(contentModel: string): XMLContentModel {
+    const model = contentModel.trim();
+    if (model == 'EMPTY') return { kind: 'EMPTY' };
+    if (model == 'ANY') return { kind: 'ANY' };
+    const malformed = (reason: string) =>
+        new XMLParseError('MALFORMED_DTD', `Malformed content model '${model}': ${reason}`);
 
-    const stream = fs.createReadStream(filePath, {
-        // highWaterMark: 1024,
-        encoding: 'utf-8',
-    });
+    let i = 0;
+    const skipWhitespace = () => {
+        while (isXMLWhitespace(model[i])) i++;
+    }
+    const readQuantifier = (): XMLContentQuantifier => {
+        const c = model[i];
+        if (c != '?' && c != '*' && c != '+') return '';
+        i++;
+        return c;
+    }
+    const readName = (): string => {
+        const start = i;
+        while (i < model.length && !/[\s()|,?*+]/.test(model[i])) i++;
+        if (i == start) throw malformed(`expected a name at ${i}`);
+        return model.slice(start, i);
+    }
+    // A parenthesized group, with `i` just past its '('
+    const readGroup = (): XMLContentParticle => {
+        const particles: XMLContentParticle[] = [];
+        let separator: ',' | '|' | undefined = undefined;
+        while (true) {
+            skipWhitespace();
+            if (model[i] == '(') {
+                i++;
+                particles.push(readGroup());
+            }
+            else {
+                const name = readName();
+                particles.push({ kind: 'name', name, quantifier: readQuantifier() });
+            }
+            skipWhitespace();
+            const c = model[i++];
+            if (c == ')') break;
+            if (c != ',' && c != '|') throw malformed(`expected ',', '|' or ')' at ${i - 1}`);
+            if (separator && c != separator) throw malformed(`mixed ',' and '|' at ${i - 1}`);
+            separator = c;
+        }
+        return { kind: separator == '|' ? 'choice' : 'seq', particles, quantifier: readQuantifier() };
+    }
 
-    // Allocate buffers: token, string, element
-    type DtdOpenToken = '<!ELEMENT' | '<!ATTLIST' | '<!ENTITY' | '<!NOTATION';
-    type POpenToken = PTagProps | '<' | '<!DOCTYPE' | '<!--' | '<?' | '[' | DtdOpenToken;
-    type PCloseToken = { tagName: PTagName } | '>' | ']' | '-->' | '?>' | ']';
+    skipWhitespace();
+    if (model[i++] != '(') throw malformed("expected '(', EMPTY or ANY");
+    skipWhitespace();
+    let result: XMLContentModel;
+    if (model.startsWith('#PCDATA', i)) {
+        i += '#PCDATA'.length;
+        const names: string[] = [];
+        while (true) {
+            skipWhitespace();
+            const c = model[i++];
+            if (c == ')') break;
+            if (c != '|') throw malformed(`expected '|' or ')' at ${i - 1}`);
+            skipWhitespace();
+            names.push(readName());
+        }
+        if (model[i] == '*') i++;
+        else if (names.length > 0) throw malformed("mixed content with elements must end in ')*'");
+        result = { kind: 'mixed', names };
+    }
+    else result = { kind: 'children', particle: readGroup() };
 
-    const prevTokens: POpenToken[] = [];
+    skipWhitespace();
+    if (i < model.length) throw malformed(`unexpected '${model.slice(i)}'`);
+    return result;
+}
 
-    const strBuffer = new Array(k_BUF_MAX_SIZE).fill('\0');
-    let strBufferLength: number = 0;
+// Selectors pick out elements by their path, XPath-style:
+// `entry`            any <entry>
+// `entry/sense`      a <sense> child of an <entry>
+// `/JMdict/entry`    an <entry> child of the root <JMdict>
+// `entry//gloss`     a <gloss> anywhere below an <entry>
+// `*`                any element; `{uri}local` matches by expanded name with `namespaces`
+// `gloss[@xml:lang="ger"]`, `ref[@type]`: elements with that attribute value, or with
+// that attribute at all. A step can have several predicates.
+// A leading `//` is the same as none: the first step may match at any depth.
+type XMLSelectorStep = {
+    name: string;
+    // May be any number of levels below the previous step, rather than its child
+    descendant: boolean;
+    predicates: { attribute: string; value?: string }[];
+};
 
-    let currDoctype: XMLDoctype | undefined = undefined;
-    const currElementMap: { [k: string]: PElement | undefined } = {};
-    let currText: string | undefined = undefined;
+function compileSelector(selector: string): XMLSelectorStep[] {
+    const steps: XMLSelectorStep[] = [];
+    const invalid = (reason: string) => new Error(`Invalid selector '${selector}': ${reason}`);
+    let i = 0;
 
-    const emplaceDtd = (dtd: XMLDtdDecl) => {
-        if (!currDoctype) throw "Curr doctype not defined";
-        if (!currDoctype.internal) currDoctype.internal = [];
-        currDoctype.internal.push(dtd);
+    const readUntil = (stops: string): string => {
+        const start = i;
+        while (i < selector.length && !stops.includes(selector[i])) i++;
+        return selector.slice(start, i).trim();
     }
-    const onDtdDecl = (dtd: XMLDtdDecl) => {
-        emplaceDtd(dtd);
-        if (props.onDtdDecl) {
-            props.onDtdDecl(dtd);
-        }
-    }
-    // List of tag from root to current
-    const getNthPathKey = (n: number): string => {
-        const nodes: PElement[] = prevTokens.filter((tok) => typeof tok == 'object');
-        const names: string[] = nodes.map(n => n.tagName);
-        const path = names.slice(0, names.length - n);
-        return path.join(',')
-    }
-    const getRootPathKey = (): string => getNthPathKey(0);
-    const getParentPathKey = (): string => getNthPathKey(1);
-    // If skipRoot is on, paths have minimum length 2, since we don't cache the root element
-    const hasRootPath = (): boolean => {
-        if (props.skipRoot) return prevTokens.length >= 2;
-        return prevTokens.length >= 1;
-    };
-    const hasParentRootPath = (): boolean => {
-        if (props.skipRoot) return prevTokens.length >= 3
-        return prevTokens.length >= 2;
-    };
 
+    while (i < selector.length) {
+        let descendant = steps.length == 0;
+        if (selector[i] == '/') {
+            i++;
+            descendant = selector[i] == '/';
+            if (descendant) i++;
+        }
+        else if (steps.length > 0) throw invalid(`expected '/' at ${i}`);
 
-    // Token and buffer handlers
-    const getNthParent = (n: number): POpenToken | undefined =>
-        prevTokens.length >= n ? prevTokens[prevTokens.length - n] : undefined;
-    const getPrevToken = (): POpenToken | undefined => getNthParent(1)
-    const isMatchedPair = (t1: POpenToken, t2: PCloseToken): boolean => {
-        if (t1 == '<' && t2 == '>') return true;
-        if (t1 == '<!DOCTYPE' && t2 == '>') return true;
-        if (t1 == '<!ELEMENT' && t2 == '>') return true;
-        if (t1 == '<!ENTITY' && t2 == '>') return true;
-        if (t1 == '<!ATTLIST' && t2 == '>') return true;
-        if (t1 == '<!NOTATION' && t2 == '>') return true;
-        if (t1 == '<!--' && t2 == '-->') return true;
-        if (t1 == '<?' && t2 == '?>') return true;
-        if (t1 == '[' && t2 == ']') return true;
-        if (typeof t1 != 'object' || typeof t2 != 'object') return false;
-        if (t1.tagName == t2.tagName) return true;
-        return false;
-    }
-
-    const tryPopToken = (endToken: PCloseToken): boolean => {
-        const prevToken = prevTokens.pop();
-        if (!prevToken) {
-            throw 'Prev token is undefined';
+        let name = '';
+        if (selector[i] == '{') {
+            name = readUntil('}');
+            if (selector[i++] != '}') throw invalid("unterminated '{'");
+            name += '}';
         }
-        if (!isMatchedPair(prevToken, endToken)) {
-            throw 'Could not match tokens' + prevToken.toString() + ',' + endToken.toString();
+        name += readUntil('/[');
+        if (!name) throw invalid(`missing element name at ${i}`);
+        if (/\s/.test(name)) throw invalid(`whitespace in element name '${name}'`);
+
+        const predicates: XMLSelectorStep['predicates'] = [];
+        while (selector[i] == '[') {
+            i++;
+            if (selector[i++] != '@') throw invalid(`expected '@' at ${i - 1}`);
+            const attribute = readUntil('=]');
+            if (!attribute) throw invalid(`missing attribute name at ${i}`);
+            let value: string | undefined = undefined;
+            if (selector[i] == '=') {
+                i++;
+                while (isXMLWhitespace(selector[i])) i++;
+                const quote = selector[i++];
+                if (quote != '"' && quote != "'") throw invalid(`expected a quoted value at ${i - 1}`);
+                const end = selector.indexOf(quote, i);
+                if (end < 0) throw invalid('unterminated attribute value');
+                value = selector.slice(i, end);
+                i = end + 1;
+                while (isXMLWhitespace(selector[i])) i++;
+            }
+            if (selector[i++] != ']') throw invalid(`expected ']' at ${i - 1}`);
+            predicates.push({ attribute, value });
         }
-        return true;
-    }
-    const pushToken = (token: POpenToken): void => {
-        prevTokens.push(token)
-    };
-    const replaceTopToken = (token: POpenToken): void => {
-        prevTokens[prevTokens.length - 1] = token;
+        steps.push({ name, descendant, predicates });
     }
+    if (steps.length == 0) throw invalid('empty selector');
+    return steps;
+}
 
-    const bufferCharacter = (nextChar: string) => {
-        strBuffer[strBufferLength++] = nextChar;
+// Whether `steps[0..last]` match with `steps[last]` on `tags[at]`; `tags` runs from the root
+function matchSelector(
+    steps: XMLSelectorStep[],
+    tags: (index: number) => XMLTagProps,
+    last: number,
+    at: number
+): boolean {
+    const step = steps[last];
+    const tag = tags(at);
+    if (step.name != '*' && step.name != tag.tagName && !(tag.name && step.name == expandedName(tag.name))) {
+        return false;
     }
-
-    // Keep a rolling buffer up until the given length. Used for look-behind on ]> and -->
-    const bufferCharMaxLen = (nextChar: string, maxLen: number) => {
-        bufferCharacter(nextChar);
-        if (strBufferLength > maxLen) {
-            for (let i = 0; i < maxLen; i++) {
-                strBuffer[i] = strBuffer[i + 1];
-            }
-            strBuffer[maxLen] = '\0';
-            strBufferLength--;
-        }
+    for (const { attribute, value } of step.predicates) {
+        const actual = tag.attributes?.[attribute];
+        if (actual == undefined || (value != undefined && actual != value)) return false;
     }
 
-    const flushCharBuffer = (reset: boolean = true): string => {
-        const slice: string[] = strBuffer.slice(0, strBufferLength);
-        const res = slice.join('');
+    if (last == 0) return step.descendant || at == 0;
+    if (!step.descendant) return at > 0 && matchSelector(steps, tags, last - 1, at - 1);
+    for (let parent = at - 1; parent >= 0; parent--) {
+        if (matchSelector(steps, tags, last - 1, parent)) return true;
+    }
+    return false;
+}
 
-        if (reset) {
-            strBuffer.fill('\0', 0, strBufferLength);
-            strBufferLength = 0;
-        }
+// Position (Glushkov) automaton of a `children` content model, so element content can be
+// checked one child at a time. Each position is one name in the model; a state is the
+// list of positions the children so far can end at, with -1 before the first child.
+type XMLContentAutomaton = {
+    names: string[];
+    first: number[];
+    follow: number[][];
+    last: Set<number>;
+    nullable: boolean;
+};
 
-        return res;
+function compileContentAutomaton(particle: XMLContentParticle): XMLContentAutomaton {
+    const names: string[] = [];
+    const follow: Set<number>[] = [];
+    type Fragment = { first: Set<number>; last: Set<number>; nullable: boolean };
+    const union = (a: Set<number>, b: Set<number>) => new Set([...a, ...b]);
+    const link = (from: Set<number>, to: Set<number>) => {
+        for (const p of from) to.forEach((q) => follow[p].add(q));
     }
 
-    const handleTag = (withoutBrackets: string): boolean => {
-        let stripped = withoutBrackets;
-        const hasFrontSlash: boolean = stripped.at(0) == '/';
-        if (hasFrontSlash) {
-            stripped = stripped.substring(1);
+    const build = (particle: XMLContentParticle): Fragment => {
+        let frag: Fragment;
+        if (particle.kind == 'name') {
+            const at = names.push(particle.name) - 1;
+            follow.push(new Set());
+            frag = { first: new Set([at]), last: new Set([at]), nullable: false };
         }
-        const hasBackSlash: boolean = stripped.at(-1) == '/';
-        if (hasBackSlash) {
-            stripped = stripped.slice(0, -1);
+        else if (particle.kind == 'choice') {
+            frag = { first: new Set(), last: new Set(), nullable: false };
+            for (const part of particle.particles.map(build)) {
+                frag = {
+                    first: union(frag.first, part.first),
+                    last: union(frag.last, part.last),
+                    nullable: frag.nullable || part.nullable,
+                };
+            }
         }
-
-        const prevToken = getPrevToken();
-        if (typeof prevToken == 'string') {
-            console.error("Invalid token");
-            return false;
+        else {
+            frag = { first: new Set(), last: new Set(), nullable: true };
+            for (const part of particle.particles.map(build)) {
+                link(frag.last, part.first);
+                frag = {
+                    first: frag.nullable ? union(frag.first, part.first) : frag.first,
+                    last: part.nullable ? union(frag.last, part.last) : part.last,
+                    nullable: frag.nullable && part.nullable,
+                };
+            }
         }
+        if (particle.quantifier == '*' || particle.quantifier == '+') link(frag.last, frag.first);
+        if (particle.quantifier == '*' || particle.quantifier == '?') frag.nullable = true;
+        return frag;
+    }
+
+    const root = build(particle);
+    return {
+        names,
+        first: [...root.first],
+        follow: follow.map((set) => [...set]),
+        last: root.last,
+        nullable: root.nullable,
+    };
+}
 
-        const [tagName, attributes] = p_getTagAttrsFromStripped(stripped);
-        const isEndTag: boolean = hasFrontSlash && (prevToken?.tagName == tagName);
+// Positions that can come next from `state`
+const nextContentPositions = (automaton: XMLContentAutomaton, state: number[]): number[] => {
+    const next: Set<number> = new Set();
+    for (const p of state) {
+        for (const q of p < 0 ? automaton.first : automaton.follow[p]) next.add(q);
+    }
+    return [...next];
+}
+const isContentAccepted = (automaton: XMLContentAutomaton, state: number[]): boolean =>
+    state.some((p) => p < 0 ? automaton.nullable : automaton.last.has(p));
+
+// How `validate` surfaces violations: 'report' passes each to `onValidationError`,
+// 'strict' rejects with the first
+export type XMLValidationMode = 'report' | 'strict';
+
+// Checks a document against the declarations of its DOCTYPE as it's parsed. Content is
+// checked as each child arrives and completeness when the element closes, so memory
+// doesn't grow with the number of children.
+type XMLDtdValidator = {
+    // Check a start tag against its parent's content model and its attribute declarations
+    openElement: (tag: XMLTagProps) => void;
+    // Whether the current element may hold text; only then is `text` left uncalled
+    acceptsText: () => boolean;
+    // Non-whitespace text inside the current element
+    text: () => void;
+    closeElement: () => void;
+    // Check that IDREFs refer to declared IDs, once the document is complete
+    end: () => void;
+};
 
-        // End tag
-        if (isEndTag) {
-            if (hasRootPath()) {
-                const mapKey = getRootPathKey();
-                if (!currElementMap[mapKey]) throw "Should be defined"
-
-                if (currText) {
-                    xmlEmplaceChild(currElementMap[mapKey], currText);
-                    currText = undefined;
-                }
-                if (props.onElement) props.onElement(currElementMap[mapKey]);
-                if (hasParentRootPath()) {
-                    const parKey = getParentPathKey();
-                    if (!currElementMap[parKey]) throw "Should be defined"
-                    xmlEmplaceChild(currElementMap[parKey], currElementMap[mapKey]);
-                }
-                currElementMap[mapKey] = undefined;
-            }
-            if (!tryPopToken({ tagName })) { throw "Could not pop tag"; }
+type XMLValidationFrame = {
+    tagName: string;
+    // Undefined for undeclared elements, whose content isn't checked
+    model?: XMLContentModel;
+    automaton?: XMLContentAutomaton;
+    // Positions the children so far can end at. Unset once the content has been found
+    // invalid, so the rest of it isn't reported again.
+    state?: number[];
+};
 
+// Content models and attribute declarations of a DOCTYPE, by element name. The first
+// declaration of an element or attribute is binding.
+type XMLDtdDeclarations = {
+    models: Map<string, XMLContentModel>;
+    attlists: Map<string, Map<string, Dtd_ATTLIST_Attr>>;
+};
 
-            if (props.onCloseTag) props.onCloseTag(tagName);
+function collectDtdDeclarations(doctype: XMLDoctype): XMLDtdDeclarations {
+    const models: Map<string, XMLContentModel> = new Map();
+    const attlists: Map<string, Map<string, Dtd_ATTLIST_Attr>> = new Map();
+    for (const decl of [...doctype.internal ?? [], ...doctype.externalSubset ?? []]) {
+        if (decl.tagName == '!ELEMENT' && !models.has(decl.elementName)) {
+            models.set(decl.elementName, decl.model ?? { kind: 'ANY' });
         }
-        // Self-closing tag
-        else if (hasBackSlash) {
-            const el: PElement = { tagName, attributes };
-            if (hasRootPath()) {
-                const parKey = getRootPathKey();
-                if (!currElementMap[parKey]) throw "Should be defined";
-                xmlEmplaceChild(currElementMap[parKey], el);
+        else if (decl.tagName == '!ATTLIST') {
+            const attrs = attlists.get(decl.elementName) ?? new Map();
+            for (const attr of decl.attributes) {
+                if (!attrs.has(attr.attributeName)) attrs.set(attr.attributeName, attr);
             }
-
-            if (props.onElement) props.onElement(el);
-            if (props.onSelfcloseTag) props.onSelfcloseTag(el);
+            attlists.set(decl.elementName, attrs);
         }
-        // Start tag
-        else if (!hasFrontSlash && !hasBackSlash) {
-            if (currText) {
-                if (hasRootPath()) {
-                    const parentKey = getRootPathKey();
-                    if (!currElementMap[parentKey]) throw 'Tag should be defined';
-                    xmlEmplaceChild(currElementMap[parentKey], currText);
-                    currText = undefined;
-                }
-            }
-            pushToken({ tagName, attributes });
-            if (hasRootPath()) {
-                const mapKey = getRootPathKey();
-                if (currElementMap[mapKey]) throw 'Tag should be undefined';
-                const el: PElement = { tagName, attributes, children: [] };
-                if (props.addSource?.[tagName]) {
-                    el.source = stripped;
-                }
-                currElementMap[mapKey] = el;
-            }
+    }
+    return { models, attlists };
+}
 
-            if (props.onOpenTag) props.onOpenTag({ tagName, attributes });
+// Attribute values of any type but CDATA have their whitespace collapsed and trimmed
+const normalizeAttributeValue = (attr: Dtd_ATTLIST_Attr, value: string): string =>
+    attr.dataType == 'CDATA' ? value : value.trim().replace(/[ \t\r\n]+/g, ' ');
+
+// Types whose values are lists of space-separated tokens
+const k_TOKENIZED_ATTRIBUTE_TYPES = ['NMTOKENS', 'IDREFS', 'ENTITIES'];
+
+function createDtdValidator(
+    { models, attlists }: XMLDtdDeclarations,
+    doctype: XMLDoctype,
+    report: (code: XMLValidationErrorCode, message: string, context?: XMLParseErrorContext) => void,
+    getContext: () => XMLParseErrorContext
+): XMLDtdValidator {
+
+    const automata: Map<string, XMLContentAutomaton> = new Map();
+    const getAutomaton = (tagName: string, particle: XMLContentParticle): XMLContentAutomaton => {
+        let automaton = automata.get(tagName);
+        if (!automaton) {
+            automaton = compileContentAutomaton(particle);
+            automata.set(tagName, automaton);
         }
-        else {
-            console.error("handleTag error: Something weird happened")
-            return false;
-        }
-
-        return true;
+        return automaton;
     }
 
-    const dtd_tags: POpenToken[] = ['<!ENTITY', '<!ELEMENT', '<!NOTATION', '<!ATTLIST'];
+    const frames: XMLValidationFrame[] = [];
+    const ids: Set<string> = new Set();
+    // IDREFs to IDs not seen yet, with where they were
+    const pendingRefs: { id: string; context: XMLParseErrorContext }[] = [];
 
-    // File parsing logic
-    const onReadChunk = (chunk: string) => {
-        for (const char of chunk) {
-            const flushBufWithCurrentChar = (reset: boolean = true): string =>
-                flushCharBuffer(reset) + char;
+    const describeNames = (names: string[]): string =>
+        names.length == 0 ? 'no more elements' : [...new Set(names)].map((n) => `<${n}>`).join(', ');
 
-            const prevToken = getPrevToken();
-            if (prevToken == '<!--') {
-                if (char == '>') {
-                    let contents = flushCharBuffer(false);
-                    if (contents.length >= 2 && contents.slice(-2) == '--') {
-                        if (!tryPopToken('-->')) throw 'Pop token failed';
-                        if (props.onComment) props.onComment('<!--' + contents + '-->');
-                        flushCharBuffer();
-                        continue;
-                    }
-                }
-                else {
-                    bufferCharMaxLen(char, k_COMMENT_MAX_LENGTH);
-                    // bufferCharacter(char)
-                    continue;
-                }
+    // Check `tagName` as the next child of the current element
+    const checkChild = (tagName: string) => {
+        const parent = frames[frames.length - 1];
+        if (!parent) {
+            if (tagName != doctype.rootTagName) {
+                report('INVALID_ROOT', `Root element <${tagName}> does not match the DOCTYPE <${doctype.rootTagName}>`);
             }
-            else if (prevToken == '<?') {
-                if (char == '>') {
-                    let contents = flushCharBuffer();
-                    if (contents.slice(-1) != '?') throw "Invalid <?xml ?> declaration format";
-                    contents = contents.slice(0, -1);
-                    const [_, attrs] = getTagAttrsFromStripped(contents);
-                    if (!tryPopToken('?>')) throw 'Pop token failed';
-                    if (props.onDeclaration) props.onDeclaration({ ...attrs } as XMLDeclaration);
-                    continue;
-                }
-                else {
-                    bufferCharacter(char);
-                    continue;
-                }
+            return;
+        }
+        const model = parent.model;
+        if (!model || model.kind == 'ANY') return;
+        if (model.kind == 'EMPTY') {
+            report('INVALID_CONTENT', `Element <${tagName}> is not allowed in <${parent.tagName}>, which is declared EMPTY`);
+        }
+        else if (model.kind == 'mixed') {
+            if (!model.names.includes(tagName)) {
+                report('INVALID_CONTENT', `Element <${tagName}> is not allowed in <${parent.tagName}>`);
             }
-            else if (prevToken == '<!DOCTYPE') {
-                if (char == '[') {
-                    pushToken('[');
-                    const content = flushCharBuffer()
-                    const rootTagName = content.replace(/\s/g, '');
-                    currDoctype = { rootTagName };
-                    continue;
-                }
-                else if (char == '>') {
-                    if (!tryPopToken('>')) throw 'Token error';
-                    flushCharBuffer();
-                    continue;
-                }
+        }
+        else if (parent.automaton && parent.state) {
+            const candidates = nextContentPositions(parent.automaton, parent.state);
+            const next = candidates.filter((p) => parent.automaton!.names[p] == tagName);
+            if (next.length > 0) {
+                parent.state = next;
+                return;
             }
-            else if (prevToken == '[') {
-                const parentToken = getNthParent(2);
-                if (parentToken != '<!DOCTYPE') throw "Invalid token";
-
-
-                if (char == ']') {
-                    if (!tryPopToken(']')) throw 'token error';
-                    if (!currDoctype) throw 'currDocType is undefined';
-                    if (props.onDoctype) props.onDoctype({ ...currDoctype });
-                    currDoctype = undefined;
-                    continue;
-                }
-
-                let matchedDtd = false;
-                const content = flushBufWithCurrentChar(false);
-                for (const tag of dtd_tags) {
-                    if (typeof tag == 'object') continue;
-                    if (content.slice(-1 * tag.length) == tag) {
-                        pushToken(tag);
-                        flushCharBuffer();
-                        matchedDtd = true;
-                        break;
-                    }
-                }
-                if (matchedDtd) continue;
-
-                if (content.slice(-1 * '<!--'.length) == '<!--') {
-                    pushToken('<!--');
-                    flushCharBuffer();
-                    continue;
-                }
+            const expected = describeNames(candidates.map((p) => parent.automaton!.names[p]));
+            report('INVALID_CONTENT',
+                `Element <${tagName}> is not allowed here in <${parent.tagName}>; expected ${expected}`);
+            parent.state = undefined;
+        }
+    }
 
-                bufferCharacter(char);
+    const checkAttributes = (tag: XMLTagProps) => {
+        const decls = attlists.get(tag.tagName);
+        const attributes = tag.attributes ?? {};
+        for (const [key, rawValue] of Object.entries(attributes)) {
+            const decl = decls?.get(key);
+            if (!decl) {
+                report('UNDECLARED_ATTRIBUTE', `Attribute '${key}' is not declared for <${tag.tagName}>`);
                 continue;
             }
-            else if (prevToken == '<!ELEMENT') {
-                if (char == '>') {
-                    if (!tryPopToken('>')) throw 'token error';
-                    const content = flushCharBuffer().trim();
-                    const parts = splitAroundBoundaries(content);
-                    const elementName = parts[0];
-                    const contentModel = parts[1];
-
-                    let dtd: Dtd_ELEMENT = {
-                        tagName: '!ELEMENT', elementName, contentModel
-                    };
-
-                    if (props.addSource?.['!ELEMENT']) {
-                        dtd.source = prevToken + content + '>';
-                    }
-
-                    if (props.onDtdDecl) onDtdDecl(dtd);
-
-                    continue;
-                }
-                else {
-                    bufferCharacter(char);
-                    continue;
+            if (rawValue == undefined || decl.dataType == 'CDATA') continue;
+            const value = normalizeAttributeValue(decl, rawValue);
+
+            const enumeration = decl.dataType.match(/^(?:NOTATION\s*)?\((.*)\)$/s);
+            if (enumeration) {
+                const allowed = enumeration[1].split('|').map((v) => v.trim());
+                if (!allowed.includes(value)) {
+                    report('INVALID_ATTRIBUTE_VALUE',
+                        `Attribute '${key}' of <${tag.tagName}> is '${value}', not one of ${allowed.join(', ')}`);
                 }
             }
-            else if (prevToken == '<!ENTITY') {
-                if (char == '>') {
-                    if (!tryPopToken('>')) throw 'token error';
-                    const content = flushCharBuffer().trim();
-                    const parts = splitAroundBoundaries(content);
-                    const key = parts[0];
-                    const value = parts[1];
-                    let dtd: Dtd_ENTITY = {
-                        tagName: '!ENTITY',
-                        key,
-                        value: trimQuotes(value),
-                    };
-
-                    if (props.addSource?.['!ENTITY']) {
-                        dtd.source = prevToken + content + '>';
-                    }
-
-                    if (props.onDtdDecl) onDtdDecl(dtd);
-
-                    continue;
-                }
-                else {
-                    bufferCharacter(char);
-                    continue;
-                }
+            else if (decl.dataType == 'ID') {
+                if (ids.has(value)) report('DUPLICATE_ID', `ID '${value}' is already used`);
+                ids.add(value);
             }
-            else if (prevToken == '<!ATTLIST') {
-                if (char == '>') {
-                    if (!tryPopToken('>')) throw "token error";
-                    const content = flushCharBuffer();
-                    const parts = splitAroundBoundaries(content.trim());
-
-                    const elementName = parts[0];
-                    let dtd: Dtd_ATTLIST = {
-                        tagName: '!ATTLIST',
-                        elementName,
-                        attributes: [],
-                    };
-
-                    const defaultAttr = () => ({
-                        attributeName: '',
-                        dataType: '',
-                        defaultDeclaration: {}
-                    });
-
-                    let currAttr: Dtd_ATTLIST_Attr = defaultAttr();
-
-                    for (let i = 1; i < parts.length; i++) {
-                        const part = parts[i];
-                        if (part.at(0) == '#')
-                            currAttr.defaultDeclaration.defaultType = part;
-                        else if (part.at(0) == '"')
-                            currAttr.defaultDeclaration.defaultValue = trimQuotes(part);
-                        else {
-                            if (currAttr.attributeName == '')
-                                currAttr.attributeName = part;
-                            else if (currAttr.dataType == '')
-                                currAttr.dataType = part;
-                            else {
-                                dtd.attributes.push(currAttr);
-                                currAttr = defaultAttr();
-                                currAttr.attributeName = part;
-                            }
-                        }
-                    }
-                    if (currAttr.attributeName != '' && currAttr.dataType != '') {
-                        dtd.attributes.push(currAttr);
-                        currAttr = defaultAttr();
-                    }
-
-                    if (props.addSource?.['!ATTLIST']) {
-                        dtd.source = prevToken + content + '>';
-                    }
-                    if (props.onDtdDecl) onDtdDecl(dtd);
-
-                    continue;
-                }
-                else {
-                    bufferCharacter(char);
-                    continue;
+            else if (decl.dataType == 'IDREF' || decl.dataType == 'IDREFS') {
+                for (const id of value.split(' ')) {
+                    if (id && !ids.has(id)) pendingRefs.push({ id, context: getContext() });
                 }
             }
-            else if (prevToken == '<!NOTATION') {
-                // TODO: implement this
+        }
+        for (const decl of decls?.values() ?? []) {
+            if (decl.defaultDeclaration.defaultType == '#REQUIRED' && attributes[decl.attributeName] == undefined) {
+                report('MISSING_ATTRIBUTE', `Required attribute '${decl.attributeName}' is missing on <${tag.tagName}>`);
             }
-            else if (prevToken == '<') {
-                if (char == '>') {
-                    const tagContents = flushCharBuffer();
-                    if (!tryPopToken('>')) throw new Error();
-                    if (!handleTag(tagContents)) throw new Error();
-                    continue;
-                }
-                else if (char == '?') {
-                    replaceTopToken('<?');
-                    continue;
-                }
-
-                const bufferContent = flushBufWithCurrentChar(false);
-                if (bufferContent == '!--') {
-                    replaceTopToken('<!--');
-                    flushCharBuffer();
-                    continue;
-                }
-                else if (bufferContent == '!DOCTYPE') {
-                    replaceTopToken('<!DOCTYPE')
-                    flushCharBuffer();
-                    continue;
-                }
+        }
+    }
 
-                bufferCharacter(char);
-                continue;
-            }
-            else if (typeof prevToken == 'object') {
-                // bufferCharacter(char);
-                if (char == '<') {
-                    const content = flushCharBuffer();
-                    const text = content.trim();
-                    currText = text;
-                    pushToken('<');
-                    continue;
-                }
-                else {
-                    bufferCharacter(char);
-                    continue;
-                }
-                continue;
+    return {
+        openElement: (tag) => {
+            checkChild(tag.tagName);
+            const model = models.get(tag.tagName);
+            if (!model) report('UNDECLARED_ELEMENT', `Element <${tag.tagName}> is not declared`);
+            checkAttributes(tag);
+
+            const frame: XMLValidationFrame = { tagName: tag.tagName, model };
+            if (model?.kind == 'children') {
+                frame.automaton = getAutomaton(tag.tagName, model.particle);
+                frame.state = [-1];
             }
-            else if (prevToken == undefined) {
-                if (char == '<') {
-                    pushToken('<');
-                    continue;
-                }
-
-                continue;
+            frames.push(frame);
+        },
+        acceptsText: () => {
+            const model = frames[frames.length - 1]?.model;
+            return !model || model.kind == 'ANY' || model.kind == 'mixed';
+        },
+        text: () => {
+            const frame = frames[frames.length - 1];
+            if (!frame || !frame.model) return;
+            // Reported once per element
+            if (frame.model.kind == 'children' && !frame.state) return;
+            report('INVALID_CONTENT', frame.model.kind == 'EMPTY'
+                ? `Text is not allowed in <${frame.tagName}>, which is declared EMPTY`
+                : `Text is not allowed in <${frame.tagName}>, which only holds elements`);
+            frame.state = undefined;
+        },
+        closeElement: () => {
+            const frame = frames.pop();
+            if (!frame?.automaton || !frame.state) return;
+            if (!isContentAccepted(frame.automaton, frame.state)) {
+                const candidates = nextContentPositions(frame.automaton, frame.state);
+                const expected = describeNames(candidates.map((p) => frame.automaton!.names[p]));
+                report('INCOMPLETE_CONTENT', `Element <${frame.tagName}> ends too early; expected ${expected}`);
             }
-            else {
-                console.error(prevToken, char);
-                throw "Unhandled case";
+        },
+        end: () => {
+            for (const { id, context } of pendingRefs) {
+                if (!ids.has(id)) report('UNKNOWN_IDREF', `IDREF '${id}' does not match any ID`, context);
             }
-        }
+            pendingRefs.length = 0;
+        },
     };
+}
 
-    // Attach handlers in promise
-    return new Promise((resolve, reject) => {
-        try {
-            stream.on('data', (c) => onReadChunk(c as string));
-
-            stream.on('end', () => {
-                resolve();
-            })
+// Schemas for elements, built at runtime with `el` and friends. They check elements as
+// they're parsed and give their ParamXMLElement type through `XMLInfer`:
+//
+//   const gloss = el('gloss', { attrs: { 'xml:lang': optional(oneOf('eng', 'ger')) }, text: true });
+//   const sense = el('sense', { children: { pos: many(text), gloss: many(gloss, 1) } });
+//   type JME_Sense = XMLInfer<typeof sense>;
+//
+// Children are keyed by tag name. A bare schema is exactly one of that child, `optional`
+// is at most one, and `many` any number from `min` up to `max`.
+export type XMLSchemaText = { kind: 'text' };
+export type XMLSchemaOneOf<V extends string> = { kind: 'oneOf'; values: readonly V[] };
+export type XMLSchemaOccurs<S, PRequired extends boolean> = {
+    kind: 'occurs';
+    schema: S;
+    min: number;
+    max: number;
+    // Only there for `XMLInfer`: whether at least one is needed
+    required?: PRequired;
+};
+export type XMLSchemaValue = XMLSchemaText | XMLSchemaOneOf<string>;
+export type XMLSchemaAttrs = Record<string, XMLSchemaValue | XMLSchemaOccurs<XMLSchemaValue, false>>;
+export type XMLSchemaChild = XMLSchemaText | XMLElementSchema;
+// An interface rather than a Record, which can't refer back to XMLElementSchema
+export interface XMLSchemaChildren {
+    [tagName: string]: XMLSchemaChild | XMLSchemaOccurs<XMLSchemaChild, boolean>;
+}
+export type XMLElementSchema<
+    PTagName extends string = string,
+    PAttrs extends XMLSchemaAttrs = XMLSchemaAttrs,
+    PChildren extends XMLSchemaChildren = XMLSchemaChildren,
+    PText extends boolean = boolean
+> = {
+    kind: 'element';
+    tagName: PTagName;
+    attrs: PAttrs;
+    children: PChildren;
+    // Whether text may appear among the children
+    text: PText;
+};
 
-            stream.on('error', (err) => {
-                console.error(err);
-                reject();
-            })
-        } catch (err) {
-            console.error(err);
-            reject();
+// Text content, or an attribute value of any string
+export const text: XMLSchemaText = { kind: 'text' };
+// An attribute value from a fixed list
+export const oneOf = <V extends string>(...values: V[]): XMLSchemaOneOf<V> => ({ kind: 'oneOf', values });
+// At most one, or an attribute that can be left out
+export const optional = <S extends XMLSchemaChild | XMLSchemaValue>(schema: S): XMLSchemaOccurs<S, false> =>
+    ({ kind: 'occurs', schema, min: 0, max: 1, required: false });
+// Any number from `min` to `max`
+export const many = <S extends XMLSchemaChild, M extends number = 0>(
+    schema: S,
+    min?: M,
+    max: number = Infinity
+): XMLSchemaOccurs<S, M extends 0 ? false : true> =>
+    ({ kind: 'occurs', schema, min: min ?? 0, max, required: (min ?? 0) > 0 as M extends 0 ? false : true });
+
+export function el<
+    PTagName extends string,
+    PAttrs extends XMLSchemaAttrs = {},
+    PChildren extends XMLSchemaChildren = {},
+    PText extends boolean = false
+>(
+    tagName: PTagName,
+    def: { attrs?: PAttrs; children?: PChildren; text?: PText } = {}
+): XMLElementSchema<PTagName, PAttrs, PChildren, PText> {
+    const children = def.children ?? {} as PChildren;
+    for (const [key, child] of Object.entries(children)) {
+        const schema = child.kind == 'occurs' ? child.schema : child;
+        if (schema.kind == 'element' && schema.tagName != key) {
+            throw new Error(`Invalid schema for <${tagName}>: child '${key}' is given the schema of <${schema.tagName}>`);
         }
-    })
-}
\ No newline at end of file
+    }
+    return {
+        kind: 'element',
+        tagName,
+        attrs: def.attrs ?? {} as PAttrs,
+        children,
+        text: def.text ?? false as PText,
+    };
+}
+
+// Element type described by a schema, to pass as `PSchemaElement` with the same
+// `PTagName` and `PAttrKey`
+export type XMLInfer<S, PTagName extends XMLTagName = XMLTagName, PAttrKey extends XMLAttrKey = XMLAttrKey> =
+    S extends XMLSchemaOccurs<infer Inner, boolean> ? XMLInfer<Inner, PTagName, PAttrKey>
+    : S extends XMLElementSchema<infer PSchemaTag, infer PAttrs, infer PChildren, infer PText>
+        ? Omit<ParamXMLElement<PTagName, PAttrKey>, 'children'> & { tagName: PSchemaTag } & XMLInferAttributes<PAttrs>
+            & XMLInferChildren<PChildren, PText, PTagName, PAttrKey>
+    : never;
+
+type XMLRequiredKeys<R> = {
+    [K in keyof R]: R[K] extends XMLSchemaOccurs<unknown, false> ? never : K
+}[keyof R];
+type XMLInferValue<V> =
+    V extends XMLSchemaOccurs<infer Inner, boolean> ? XMLInferValue<Inner>
+    : V extends XMLSchemaOneOf<infer U> ? U
+    : string;
+type XMLInferAttributes<PAttrs> =
+    [keyof PAttrs] extends [never] ? {}
+    : { [K in XMLRequiredKeys<PAttrs>]: XMLInferValue<PAttrs[K]> }
+        & { [K in Exclude<keyof PAttrs, XMLRequiredKeys<PAttrs>>]?: XMLInferValue<PAttrs[K]> } extends infer A
+        ? [XMLRequiredKeys<PAttrs>] extends [never]
+            ? { attributes?: XMLAttrObj & A }
+            : { attributes: XMLAttrObj & A }
+        : never;
+type XMLInferChild<K extends string, S, PTagName extends XMLTagName, PAttrKey extends XMLAttrKey> =
+    S extends XMLSchemaOccurs<infer Inner, boolean> ? XMLInferChild<K, Inner, PTagName, PAttrKey>
+    : S extends XMLSchemaText ? Omit<ParamXMLElement<PTagName, PAttrKey>, 'children'> & { tagName: K; children?: string[] }
+    : XMLInfer<S, PTagName, PAttrKey>;
+type XMLInferChildren<PChildren, PText, PTagName extends XMLTagName, PAttrKey extends XMLAttrKey> =
+    ({ [K in keyof PChildren & string]: XMLInferChild<K, PChildren[K], PTagName, PAttrKey> }[keyof PChildren & string]
+        | (PText extends true ? string : never)) extends infer C
+    ? [C] extends [never] ? { children?: [] }
+        // Elements written as <a/> have no `children`, so it's only there when a child is required
+        : [XMLRequiredKeys<PChildren>] extends [never] ? { children?: C[] } : { children: C[] }
+    : never;
+
+// Check `el` and its descendants against `schema`, reporting each mismatch. Returns
+// whether it matched.
+function checkElementSchema(
+    schema: XMLElementSchema | XMLSchemaText,
+    el: XMLElement,
+    report: (code: XMLValidationErrorCode, message: string) => void,
+    path: string = el.tagName
+): boolean {
+    let valid = true;
+    const invalid = (code: XMLValidationErrorCode, message: string) => {
+        report(code, `${message} (${path})`);
+        valid = false;
+    }
+    const attrs: XMLSchemaAttrs = schema.kind == 'element' ? schema.attrs : {};
+    const children: XMLSchemaChildren = schema.kind == 'element' ? schema.children : {};
+    const allowsText = schema.kind == 'text' || schema.text;
+
+    const attributes = el.attributes ?? {};
+    for (const [key, value] of Object.entries(attributes)) {
+        const attr = attrs[key];
+        if (!attr) {
+            invalid('UNDECLARED_ATTRIBUTE', `Attribute '${key}' is not allowed on <${el.tagName}>`);
+            continue;
+        }
+        const valueSchema = attr.kind == 'occurs' ? attr.schema : attr;
+        if (value != undefined && valueSchema.kind == 'oneOf' && !valueSchema.values.includes(value)) {
+            invalid('INVALID_ATTRIBUTE_VALUE',
+                `Attribute '${key}' of <${el.tagName}> is '${value}', not one of ${valueSchema.values.join(', ')}`);
+        }
+    }
+    for (const [key, attr] of Object.entries(attrs)) {
+        if (attr.kind != 'occurs' && attributes[key] == undefined) {
+            invalid('MISSING_ATTRIBUTE', `Required attribute '${key}' is missing on <${el.tagName}>`);
+        }
+    }
+
+    const counts: Map<string, number> = new Map();
+    let textReported = false;
+    for (const child of el.children ?? []) {
+        if (typeof child == 'string' ? !child.trim() : child.tagName == '?') continue;
+        if (typeof child == 'string' || child.tagName == '&' || child.tagName == '![CDATA[') {
+            if (!allowsText && !textReported) {
+                invalid('INVALID_CONTENT', `Text is not allowed in <${el.tagName}>`);
+                textReported = true;
+            }
+            continue;
+        }
+        const element = child as XMLElement;
+        const occurs = children[element.tagName];
+        if (!occurs) {
+            invalid('INVALID_CONTENT', `Element <${element.tagName}> is not allowed in <${el.tagName}>`);
+            continue;
+        }
+        const count = (counts.get(element.tagName) ?? 0) + 1;
+        counts.set(element.tagName, count);
+        const childSchema = occurs.kind == 'occurs' ? occurs.schema : occurs;
+        if (!checkElementSchema(childSchema, element, report, `${path}/${element.tagName}[${count}]`)) valid = false;
+    }
+    for (const [key, occurs] of Object.entries(children)) {
+        const count = counts.get(key) ?? 0;
+        const [min, max] = occurs.kind == 'occurs' ? [occurs.min, occurs.max] : [1, 1];
+        if (count < min) {
+            invalid('INCOMPLETE_CONTENT', `Element <${el.tagName}> needs at least ${min} <${key}>, not ${count}`);
+        }
+        else if (count > max) {
+            invalid('INVALID_CONTENT', `Element <${el.tagName}> allows at most ${max} <${key}>, not ${count}`);
+        }
+    }
+    return valid;
+}
+
+// Return this from `onElement` or `onOpenTag` to stop parsing. The stream is closed,
+// no further callbacks run and `parseXML` resolves with 'stopped'.
+export const STOP: unique symbol = Symbol('xml-peruse.stop');
+
+// How a parse ended
+export type XMLParseStatus = 'completed' | 'stopped' | 'aborted';
+
+// A point just past a child of the root element that a later parse of the same source can
+// resume from. Plain JSON, so it can be stored alongside what the handlers have written.
+export type XMLCheckpoint = {
+    // Where parsing continues
+    position: XMLSourcePosition;
+    // The document up to and including the root start tag, parsed again on resume to
+    // restore the DOCTYPE's declarations and entities and the root's namespaces
+    prolog: string;
+};
+
+// Narrow a user-supplied element union down to the member for one tag. Falls back to
+// the generic element with `tagName` fixed when the union has no member for it.
+export type XMLElementOfTag<
+    PTagName extends XMLTagName,
+    PAttrKey extends XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey>,
+    K extends PTagName
+> = [Extract<PSchemaElement, { tagName: K }>] extends [never]
+    ? ParamXMLElement<PTagName, PAttrKey> & { tagName: K }
+    : Extract<PSchemaElement, { tagName: K }>;
+
+// Per-tag handlers, each receiving the element type for that tag
+export type XMLElementHandlers<
+    PTagName extends XMLTagName,
+    PAttrKey extends XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey>
+> = {
+    [K in PTagName]?: (el: XMLElementOfTag<PTagName, PAttrKey, PSchemaElement, K>) => void | typeof STOP;
+} & {
+    // With `namespaces`, by expanded name, e.g. '{http://www.tei-c.org/ns/1.0}entry'
+    [K: `{${string}}${string}`]: ((el: ParamXMLElement<PTagName, PAttrKey>) => void | typeof STOP) | undefined;
+};
+
+export type XMLSubscriptions<
+    PTagName extends XMLTagName,
+    PAttrKey extends XMLAttrKey
+> = Record<string, (el: ParamXMLElement<PTagName, PAttrKey>) => void | typeof STOP>;
+
+export type XMLParserProps<
+    PTagName extends XMLTagName,
+    PAttrKey extends XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+> = {
+    skipRoot?: boolean,
+    onDeclaration?: (decl: XMLDeclaration) => void,
+    onDoctype?: (dc: XMLDoctype) => void,
+    // Called only for the tags listed; runs after `onElement`
+    onElements?: XMLElementHandlers<PTagName, PAttrKey, PSchemaElement>,
+    onElement?: (el: ParamXMLElement<PTagName, PAttrKey>) => void | typeof STOP;
+    onOpenTag?: (openTag: ParamXMLTagProps<PTagName, PAttrKey>) => void | typeof STOP;
+    onCloseTag?: (closeTag: PTagName) => void;
+    onSelfcloseTag?: (scTag: ParamXMLTagProps<PTagName, PAttrKey>) => void;
+    onDtdDecl?: (dtd: XMLDtdDecl) => void;
+    // `position` is given with `locations`
+    onComment?: (cmt: string, position?: XMLSourcePosition) => void;
+    onCData?: (text: string) => void;
+    onProcessingInstruction?: (pi: XMLProcessingInstruction) => void;
+    // Keep processing instructions inside elements as XMLProcessingInstruction children
+    keepProcessingInstructions?: boolean;
+    // Keep CDATA sections as XMLCData children instead of merging them into the text
+    keepCData?: boolean;
+    // Recover from malformed input instead of rejecting: auto-close unclosed elements,
+    // drop stray end tags, and accept unquoted attributes, bare '&' and unbound prefixes
+    recover?: boolean;
+    // Called with each fix made in `recover` mode
+    onWarning?: (warning: XMLParseWarning) => void;
+    // Check each element against the DOCTYPE's declarations: its content model, required
+    // and enumerated attributes, and ID/IDREF uniqueness. Documents without a DOCTYPE
+    // aren't checked.
+    validate?: XMLValidationMode;
+    // Called with each violation when validating in 'report' mode
+    onValidationError?: (error: XMLValidationError) => void;
+    // Apply the DTD's <!ATTLIST> declarations: fill in default and #FIXED values left out,
+    // normalize the values of non-CDATA types and split NMTOKENS, IDREFS and ENTITIES
+    // values into `attributeTokens`. Values that differ from their #FIXED one are passed
+    // to `onValidationError`, or reject with `validate: 'strict'`.
+    attributeDefaults?: boolean;
+    // Schemas built with `el`. Each complete element with one of their tag names is checked
+    // against it with its descendants, and only passed on to handlers if it matches. Elements
+    // that don't are passed to `onValidationError`, or reject without one.
+    schema?: XMLElementSchema | XMLElementSchema[];
+    // Whitespace handling in text content. Default 'trim'
+    whitespace?: XMLWhitespaceMode;
+    // Handling of DTD-declared entities in text and attribute values. Default 'expand'
+    entities?: XMLEntityMode;
+    // Resolve namespace prefixes: tags and attributes get their XMLQName in `name` and
+    // `attributeNames`, and undeclared prefixes are errors
+    namespaces?: boolean;
+    // Handlers keyed by selector (see XMLSelectorStep), called with each matching element
+    // once it's complete. When set, only elements inside a matching subtree are built:
+    // the rest of the document is scanned, and `onElement` and `onElements` only see
+    // elements inside matches.
+    subscriptions?: XMLSubscriptions<PTagName, PAttrKey>;
+    // Loads external DTD subsets and external parameter entities, e.g. `createFileResolver`.
+    // Nothing external is loaded without one.
+    resolveEntity?: XMLEntityResolver;
+    // Record where things are in the source: `location` on elements and `childPositions`
+    // for their children, `position` on DTD declarations and comments
+    locations?: boolean;
+    // Aborting closes the stream and resolves `parseXML` with 'aborted'
+    signal?: AbortSignal;
+    // Called with a checkpoint after a child of the root element once its handlers have
+    // run, at most once every `checkpointInterval` bytes (default 1 MiB)
+    onCheckpoint?: (checkpoint: XMLCheckpoint) => void;
+    checkpointInterval?: number;
+    // Continue an earlier parse of the same source from one of its checkpoints. Handlers
+    // only see what follows it: the prolog and root start tag aren't reported again, and
+    // the root, if built, only gets the children after it.
+    resumeFrom?: XMLCheckpoint;
+    addSource?: Partial<Record<PTagName, boolean> & {
+        '!ELEMENT': boolean,
+        '!ENTITY': boolean,
+        '!ATTLIST': boolean,
+        '!NOTATION': boolean,
+    }>;
+};
+
+// Anything `parseXML` can read from. A plain string is treated as a file path;
+// use `parseXMLString` to parse XML text held in memory.
+export type XMLSource =
+    | string
+    | Buffer
+    | Uint8Array
+    | Readable
+    | WebReadableStream<Uint8Array>;
+
+// Normalize any XMLSource into a node Readable of its bytes from offset `start`. Files
+// are opened there; streams are read from the beginning with the bytes before it dropped.
+function openSourceStream(source: XMLSource, start: number = 0): Readable {
+    if (typeof source == 'string') return fs.createReadStream(source, { start });
+    if (source instanceof Uint8Array) return Readable.from([source.subarray(start)]);
+    let stream: Readable;
+    if (source instanceof Readable) stream = source;
+    else if (typeof (source as WebReadableStream).getReader == 'function') {
+        stream = Readable.fromWeb(source as WebReadableStream<Uint8Array>);
+    }
+    else throw new TypeError('Unsupported XML source');
+    return start > 0 ? Readable.from(skipBytes(stream, start)) : stream;
+}
+
+async function* skipBytes(stream: Readable, count: number): AsyncGenerator<Buffer> {
+    for await (const chunk of stream) {
+        const bytes = toBuffer(chunk);
+        if (count >= bytes.length) {
+            count -= bytes.length;
+            continue;
+        }
+        yield bytes.subarray(count);
+        count = 0;
+    }
+}
+
+// An XMLEntityResolver that reads system identifiers as paths relative to `baseDir`.
+// URLs and paths outside `baseDir` aren't loaded, so a document can't make the parser
+// read arbitrary files or reach the network.
+export function createFileResolver(baseDir: string): XMLEntityResolver {
+    const root = path.resolve(baseDir);
+    return ({ systemId }) => {
+        if (/^[A-Za-z][A-Za-z0-9+.-]*:/.test(systemId)) return undefined;
+        const file = path.resolve(root, systemId);
+        if (!file.startsWith(root + path.sep)) return undefined;
+        return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+    };
+}
+
+// Function handlers for `parseXML` - basically a function for each tag type
+
+// Bytes the tokenizer looks for
+const k_LT = 0x3C;          // <
+const k_GT = 0x3E;          // >
+const k_SLASH = 0x2F;       // /
+const k_BANG = 0x21;        // !
+const k_QMARK = 0x3F;       // ?
+const k_QUOT = 0x22;        // "
+const k_APOS = 0x27;        // '
+const k_LBRACKET = 0x5B;    // [
+const k_RBRACKET = 0x5D;    // ]
+const k_PERCENT = 0x25;     // %
+const k_SEMICOLON = 0x3B;   // ;
+const k_AMP = 0x26;         // &
+const k_NEWLINE = 0x0A;
+
+const k_COMMENT_OPEN = Buffer.from('<!--');
+const k_COMMENT_CLOSE = Buffer.from('-->');
+const k_CDATA_OPEN = Buffer.from('<![CDATA[');
+const k_CDATA_CLOSE = Buffer.from(']]>');
+const k_PI_CLOSE = Buffer.from('?>');
+const k_DOCTYPE_OPEN = Buffer.from('<!DOCTYPE');
+const k_UTF8_BOM = Buffer.from([0xEF, 0xBB, 0xBF]);
+const k_NO_INPUT = Buffer.alloc(0);
+const k_CHECKPOINT_INTERVAL = 1024 * 1024;
+const k_CONDITIONAL_OPEN = Buffer.from('<![');
+const k_CONDITIONAL_CLOSE = k_CDATA_CLOSE;
+const k_PARAMETER_ENTITY_REF_REGEX = /%([A-Za-z_:][\w.:-]*);/g;
+const k_TEXT_DECLARATION_REGEX = /^\uFEFF?<\?xml\s[^?]*\?>/;
+const k_DTD_DECL_OPEN: [Buffer, XMLDtdDecl['tagName']][] = [
+    [Buffer.from('<!ELEMENT'), '!ELEMENT'],
+    [Buffer.from('<!ATTLIST'), '!ATTLIST'],
+    [Buffer.from('<!ENTITY'), '!ENTITY'],
+    [Buffer.from('<!NOTATION'), '!NOTATION'],
+];
+
+const isWhitespaceByte = (b: number): boolean =>
+    b == 0x20 || b == 0x09 || b == 0x0A || b == 0x0D;
+// Name characters; any non-ASCII byte is taken to be part of one
+const isNameStartByte = (b: number): boolean =>
+    (b >= 0x61 && b <= 0x7A) || (b >= 0x41 && b <= 0x5A) || b == 0x5F || b == 0x3A || b >= 0x80;
+const isNameByte = (b: number): boolean =>
+    isNameStartByte(b) || (b >= 0x30 && b <= 0x39) || b == 0x2D || b == 0x2E;
+
+// Whether a tag name runs from `from` up to whitespace, '/' or '>': true/false, or
+// undefined if `data` ends before that can be decided
+function isTagNameAt(data: Buffer, from: number): boolean | undefined {
+    if (from >= data.length) return undefined;
+    if (!isNameStartByte(data[from])) return false;
+    for (let i = from + 1; i < data.length; i++) {
+        const b = data[i];
+        if (isWhitespaceByte(b) || b == k_SLASH || b == k_GT) return true;
+        if (!isNameByte(b)) return false;
+    }
+    return undefined;
+}
+
+// Whether `data` holds `token` at `pos`: true/false, or undefined if `data` ends
+// before that can be decided
+function matchesAt(data: Buffer, pos: number, token: Buffer): boolean | undefined {
+    const len = Math.min(token.length, data.length - pos);
+    for (let i = 0; i < len; i++) {
+        if (data[pos + i] != token[i]) return false;
+    }
+    return len == token.length ? true : undefined;
+}
+
+// Index of the `>` ending the markup at `from`, skipping over quoted values; -1 if it
+// isn't in `data` yet
+function findMarkupEnd(data: Buffer, from: number): number {
+    let i = from;
+    while (true) {
+        const gt = data.indexOf(k_GT, i);
+        if (gt < 0) return -1;
+        let quote = -1;
+        for (let j = i; j < gt; j++) {
+            if (data[j] == k_QUOT || data[j] == k_APOS) {
+                quote = j;
+                break;
+            }
+        }
+        if (quote < 0) return gt;
+        const close = data.indexOf(data[quote], quote + 1);
+        if (close < 0) return -1;
+        i = close + 1;
+    }
+}
+
+// Number of UTF-8 encoded characters in data[from, to)
+function countUtf8Chars(data: Buffer, from: number, to: number): number {
+    let count = 0;
+    for (let i = from; i < to; i++) {
+        if ((data[i] & 0xC0) != 0x80) count++;
+    }
+    return count;
+}
+
+const toBuffer = (c: string | Uint8Array): Buffer =>
+    typeof c == 'string' ? Buffer.from(c, 'utf-8') : Buffer.from(c.buffer, c.byteOffset, c.byteLength);
+
+// Incremental parser state machine: feed it raw UTF-8 bytes with `write`, in as many
+// chunks as needed. Shared by `parseXML` and `peruse`.
+//
+// Input is scanned a whole token (tag, text run, comment, ...) at a time with index
+// arithmetic over the bytes, and only decoded to a string once a token is complete.
+// Bytes of an incomplete token are carried over to the next chunk.
+type XMLChunkParser = {
+    write: (chunk: string | Uint8Array) => void;
+    // Call once the input is exhausted; throws if it ended inside open markup
+    end: () => void;
+    // Why the parser stopped consuming input, if it has
+    halted: () => 'stopped' | 'aborted' | undefined;
+    // Byte offsets of the element being passed to handlers, from its start tag to past its
+    // end tag. Only valid inside element handlers.
+    elementSpan: () => { start: number; end: number };
+    // Offset of the start tag of the outermost open element matched by a subscription
+    subscribedFrom: () => number | undefined;
+    // Offset up to which the input has been handled; later bytes may be part of a token
+    consumed: () => number;
+    // Offset of the token being handled, e.g. a start tag inside `onOpenTag`
+    tokenStart: () => number;
+    // Stop once the token being handled is done. The next `write` (empty to add no input)
+    // or `end` carries on from there.
+    pause: () => void;
+};
+
+function createXMLParser<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+>(
+    props: XMLParserProps<PTagName, PAttrKey, PSchemaElement> = {}
+): XMLChunkParser {
+    const p_getTagAttrsFromStripped = getTagAttrsFromStripped<PTagName, PAttrKey>;
+    // Types
+    type PTagProps = ParamXMLTagProps<PTagName, PAttrKey>;
+    type PAttrObj = ParamXMLAttrObj<PAttrKey>;
+    type PElement = ParamXMLElement<PTagName, PAttrKey>;
+
+    // Open elements from the root down. `openElements` holds the element being built for
+    // each (undefined for a skipped root), `openSpaceModes` the whitespace mode inside it.
+    const openTags: PTagProps[] = [];
+    const openElements: (PElement | undefined)[] = [];
+    const openSpaceModes: XMLWhitespaceMode[] = [];
+    // Prefix to namespace URI bindings in scope inside each open element, with `namespaces`
+    const openNamespaces: Map<string, string>[] = [];
+    // Subscription handlers each open element matched
+    const openSubscribers: (XMLSubscriber[] | undefined)[] = [];
+    // Offset of each open element's start tag
+    const openStarts: number[] = [];
+    // Start of the element being emitted, for `elementSpan`
+    let emittedStartAbs = 0;
+
+    type XMLSubscriber = (el: PElement) => unknown;
+    const subscriptions = props.subscriptions && Object.entries(props.subscriptions)
+        .map(([selector, handler]) => ({ steps: compileSelector(selector), handler: handler as XMLSubscriber }));
+
+    // Set once a handler returns STOP or the abort signal fires
+    let halted: 'stopped' | 'aborted' | undefined = undefined;
+    let paused = false;
+    const isHalted = (): boolean => {
+        if (!halted && props.signal?.aborted) halted = 'aborted';
+        return halted != undefined;
+    }
+    // While replaying the prolog of `resumeFrom`, nothing is passed to callbacks
+    let replaying = false;
+    // Run a user callback unless parsing has halted; returning STOP halts it
+    const emit = <A extends unknown[]>(cb: ((...args: A) => unknown) | undefined, ...args: A): void => {
+        if (!cb || replaying || isHalted()) return;
+        if (cb(...args) === STOP) halted = 'stopped';
+    }
+    const schemas: Map<string, XMLElementSchema> = new Map();
+    for (const schema of [props.schema ?? []].flat()) schemas.set(schema.tagName, schema);
+    const reportSchemaMismatch = (code: XMLValidationErrorCode, message: string) => {
+        if (props.validate == 'strict' || !props.onValidationError) throw new XMLParseError(code, message);
+        emit(props.onValidationError, { code, message, ...getErrorContext() });
+    }
+    // Completed elements go to `onElement`, then to their `onElements` handler if any.
+    // Elements that don't match their schema are dropped.
+    const emitElement = (el: PElement, subscribers?: XMLSubscriber[]): void => {
+        const schema = schemas.get(el.tagName);
+        if (schema && !checkElementSchema(schema, el, reportSchemaMismatch)) return;
+        emit(props.onElement, el);
+        const handlers = props.onElements as Record<string, ((el: PElement) => unknown) | undefined> | undefined;
+        emit(handlers?.[el.tagName], el);
+        const expanded = el.name && expandedName(el.name);
+        if (expanded && expanded != el.tagName) emit(handlers?.[expanded], el);
+        for (const subscriber of subscribers ?? []) emit(subscriber, el);
+    }
+
+    // Unconsumed input: `data[pos]` is the next byte to scan, at absolute offset
+    // `dataStart + pos` in the source
+    let data: Buffer = Buffer.alloc(0);
+    let dataStart = 0;
+    let pos = 0;
+    // Absolute offset of the token being handled, for positions in errors
+    let tokenStartAbs = 0;
+    // Start of the document past any BOM. The <?xml ?> declaration must be there.
+    let docStartAbs = 0;
+    let bomChecked = false;
+    // Inside the DOCTYPE's internal subset
+    let inDtdSubset = false;
+
+    let currDoctype: XMLDoctype | undefined = undefined;
+    let sawDoctype = false;
+    let currText: string | undefined = undefined;
+    // Where `currText` starts, with `locations`
+    let currTextPosition: XMLSourcePosition | undefined = undefined;
+
+    // Line and column tracking. Lines are counted lazily up to the offsets asked for:
+    // `line` is the line holding byte `lineScanAbs` and starts at `lineStartAbs`, and
+    // there's no newline in [lineScanAbs, newlineFreeUntil). `columnChars` characters
+    // of that line precede `columnAbs`.
+    let line = 1;
+    let lineStartAbs = 0;
+    let lineScanAbs = 0;
+    let newlineFreeUntil = 0;
+    let columnAbs = 0;
+    let columnChars = 0;
+
+    const advanceLines = (toAbs: number) => {
+        while (lineScanAbs < toAbs) {
+            if (toAbs <= newlineFreeUntil) {
+                lineScanAbs = toAbs;
+                break;
+            }
+            const from = Math.max(lineScanAbs, newlineFreeUntil) - dataStart;
+            const nl = data.indexOf(k_NEWLINE, from);
+            if (nl < 0) {
+                newlineFreeUntil = dataStart + data.length;
+                continue;
+            }
+            const nlAbs = dataStart + nl;
+            if (nlAbs >= toAbs) {
+                newlineFreeUntil = nlAbs;
+                continue;
+            }
+            line++;
+            lineStartAbs = lineScanAbs = newlineFreeUntil = nlAbs + 1;
+            columnAbs = lineStartAbs;
+            columnChars = 0;
+        }
+    }
+    const advanceColumn = (toAbs: number) => {
+        if (toAbs <= columnAbs) return;
+        columnChars += countUtf8Chars(data, columnAbs - dataStart, toAbs - dataStart);
+        columnAbs = toAbs;
+    }
+    // Position of the start of the current token, kept when tracking moves past it (e.g. to
+    // an element's end with `locations`) so errors about the token can still be placed
+    let tokenStartPosition: XMLSourcePosition = { line: 1, column: 1, offset: 0 };
+    const getPosition = (abs: number): XMLSourcePosition => {
+        if (abs == tokenStartPosition.offset) return { ...tokenStartPosition };
+        // Offsets are asked for in order; one behind the tracked position reuses it
+        if (abs >= lineScanAbs) {
+            if (tokenStartAbs >= lineScanAbs && tokenStartAbs < abs) {
+                advanceLines(tokenStartAbs);
+                advanceColumn(tokenStartAbs);
+                tokenStartPosition = { line, column: columnChars + 1, offset: tokenStartAbs };
+            }
+            advanceLines(abs);
+            advanceColumn(abs);
+        }
+        else abs = lineScanAbs;
+        return { line, column: columnChars + 1, offset: abs };
+    }
+
+    const k_SNIPPET_RADIUS = 40;
+    const getErrorContext = (): XMLParseErrorContext => {
+        const rel = Math.max(0, tokenStartAbs - dataStart);
+        return {
+            position: getPosition(tokenStartAbs),
+            path: getOpenTagNames(),
+            snippet: data.toString('utf-8',
+                Math.max(0, rel - k_SNIPPET_RADIUS),
+                Math.min(data.length, rel + k_SNIPPET_RADIUS)
+            ),
+        };
+    }
+    // Position of `abs` with `locations`. Like getPosition, only in order.
+    const locate = (abs: number): XMLSourcePosition | undefined =>
+        props.locations ? getPosition(abs) : undefined;
+    const internalError = (reason: string) => new XMLParseError('INTERNAL', reason);
+    const warn = (code: XMLParseWarningCode, message: string) => {
+        emit(props.onWarning, { code, message, ...getErrorContext() });
+    }
+    const recoverAttribute = props.recover ? warn : undefined;
+    const reportInvalid = (code: XMLValidationErrorCode, message: string, context?: XMLParseErrorContext) => {
+        if (props.validate == 'strict') throw new XMLParseError(code, message, context);
+        emit(props.onValidationError, { code, message, ...context ?? getErrorContext() });
+    }
+    // With `onCheckpoint`, the input so far until the root start tag is read, then the
+    // text of it up to there
+    let prologChunks: Buffer[] | undefined = props.onCheckpoint ? [] : undefined;
+    let prolog: string | undefined = undefined;
+    let checkpointAbs = 0;
+    const checkpoint = () => {
+        if (!props.onCheckpoint || prolog == undefined || openTags.length != 1) return;
+        const abs = dataStart + pos;
+        if (abs - checkpointAbs < (props.checkpointInterval ?? k_CHECKPOINT_INTERVAL)) return;
+        checkpointAbs = abs;
+        emit(props.onCheckpoint, { position: getPosition(abs), prolog });
+    }
+
+    // Created once the DOCTYPE is read, with `validate`
+    let validator: XMLDtdValidator | undefined = undefined;
+    // Attribute declarations by element name, with `attributeDefaults`
+    let attlists: XMLDtdDeclarations['attlists'] | undefined = undefined;
+    const onBareAmpersand = () => {
+        const reason = "'&' does not start an entity or character reference";
+        if (!props.recover) throw new XMLParseError('BARE_AMPERSAND', reason);
+        warn('BARE_AMPERSAND', reason);
+    }
+    // Well-formedness errors around the root element, which `recover` mode gets past
+    const reportOutsideRoot = (what: string) => {
+        const reason = `${what} is not allowed outside the root element`;
+        if (!props.recover) throw new XMLParseError('TEXT_OUTSIDE_ROOT', reason);
+        warn('TEXT_OUTSIDE_ROOT', reason + ', dropped');
+    }
+    let sawRoot = false;
+    const checkRoot = (tagName: string) => {
+        if (openTags.length > 0) return;
+        if (sawRoot) {
+            const reason = `Element <${tagName}> follows the root element`;
+            if (!props.recover) throw new XMLParseError('EXTRA_ROOT_ELEMENT', reason);
+            warn('EXTRA_ROOT_ELEMENT', reason);
+        }
+        sawRoot = true;
+    }
+
+    const entities: XMLEntityTable = {
+        declared: new Map(),
+        expanded: new Map(),
+        produced: 0,
+        inputLength: () => dataStart + data.length,
+    };
+    const entityMode: XMLEntityMode = props.entities ?? 'expand';
+    const emplaceChild = (el: PElement, child: ParamXMLChild<PTagName, PAttrKey>, position?: XMLSourcePosition) => {
+        xmlEmplaceChild(el, child);
+        if (position) {
+            if (!el.childPositions) el.childPositions = [];
+            el.childPositions.push(position);
+        }
+    }
+    // Bare ampersands in text are reported as it's scanned
+    const emplaceText = (el: PElement, text: string, position?: XMLSourcePosition) => {
+        for (const part of decodeEntities(text, entities, entityMode)) {
+            emplaceChild(el, part, position);
+        }
+    }
+
+    const getOpenTagNames = (): string[] => openTags.map((tok) => tok.tagName);
+    const getTopElement = (): PElement | undefined => openElements[openElements.length - 1];
+    // The nearest xml:space on the open elements overrides the `whitespace` option
+    const getWhitespaceMode = (): XMLWhitespaceMode =>
+        openSpaceModes[openSpaceModes.length - 1] ?? props.whitespace ?? 'trim';
+    const normalizeWhitespace = (text: string): string => {
+        const mode = getWhitespaceMode();
+        if (mode == 'preserve') return text;
+        if (mode == 'trim') return text.trim();
+        const collapsed = text.replace(/[ \t\r\n]+/g, ' ');
+        return collapsed == ' ' ? '' : collapsed;
+    }
+    // Move pending text into the element at the top of the stack
+    const flushText = () => {
+        if (currText == undefined) return;
+        const text = normalizeWhitespace(currText);
+        const position = currTextPosition;
+        currText = currTextPosition = undefined;
+        const el = getTopElement();
+        if (!text || !el) return;
+        emplaceText(el, text, position);
+    }
+    const handleCData = (text: string) => {
+        if (openTags.length == 0) reportOutsideRoot('CDATA');
+        emit(props.onCData, text);
+        if (validator && !validator.acceptsText()) validator.text();
+        const el = getTopElement();
+        if (!el) return;
+        if (props.keepCData) {
+            flushText();
+            emplaceChild(el, { tagName: '![CDATA[', text }, locate(tokenStartAbs));
+        }
+        else {
+            // Escape the markup characters so the section reads literally once decoded
+            const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+            if (currText == undefined) currTextPosition = locate(tokenStartAbs);
+            currText = (currText ?? '') + escaped;
+        }
+    }
+    const handleProcessingInstruction = (contents: string) => {
+        let nameEnd = 0;
+        while (nameEnd < contents.length && !isXMLWhitespace(contents[nameEnd])) nameEnd++;
+        const target = contents.slice(0, nameEnd);
+        const data = contents.slice(nameEnd).trim();
+
+        if (target == 'xml') {
+            const isFirst = openTags.length == 0 && !inDtdSubset && tokenStartAbs == docStartAbs;
+            if (!isFirst) {
+                throw new XMLParseError('MISPLACED_DECLARATION',
+                    'The <?xml ?> declaration must be at the start of the document');
+            }
+            const [_, attrs] = getTagAttrsFromStripped(contents, recoverAttribute);
+            emit(props.onDeclaration, { ...attrs } as XMLDeclaration);
+            return;
+        }
+
+        const pi: XMLProcessingInstruction = { tagName: '?', target, data };
+        emit(props.onProcessingInstruction, pi);
+        const el = getTopElement();
+        if (props.keepProcessingInstructions && el) {
+            flushText();
+            emplaceChild(el, pi, locate(tokenStartAbs));
+        }
+    }
+    const decodeAttributes = (attributes: PAttrObj | undefined): PAttrObj | undefined => {
+        if (!attributes) return attributes;
+        const attrMode = entityMode == 'report' ? 'keep' : entityMode;
+        // Values are written back by plain string key
+        const values: XMLAttrObj = attributes;
+        for (const [key, value] of Object.entries(values)) {
+            if (value == undefined) continue;
+            values[key] = decodeEntities(value, entities, attrMode, onBareAmpersand)[0] as string;
+        }
+        return attributes;
+    }
+
+    // Fill in the declared default and #FIXED values of attributes the tag leaves out,
+    // normalize the values of non-CDATA types and split tokenized ones into `attributeTokens`
+    const applyAttributeDeclarations = (tag: XMLTagProps) => {
+        const decls = attlists?.get(tag.tagName);
+        if (!decls) return;
+        for (const decl of decls.values()) {
+            const key = decl.attributeName;
+            const { defaultType, defaultValue } = decl.defaultDeclaration;
+            let value = tag.attributes?.[key] ?? defaultValue;
+            if (value == undefined) continue;
+            value = normalizeAttributeValue(decl, value);
+            if (defaultType == '#FIXED' && defaultValue != undefined && value != normalizeAttributeValue(decl, defaultValue)) {
+                reportInvalid('INVALID_ATTRIBUTE_VALUE',
+                    `Attribute '${key}' of <${tag.tagName}> is '${value}', not its #FIXED value '${defaultValue}'`);
+            }
+            tag.attributes ??= {};
+            tag.attributes[key] = value;
+            if (k_TOKENIZED_ATTRIBUTE_TYPES.includes(decl.dataType)) {
+                tag.attributeTokens ??= {};
+                tag.attributeTokens[key] = value ? value.split(' ') : [];
+            }
+        }
+    }
+
+    // Whether declarations are read from the internal or the external subset
+    let dtdSubset: 'internal' | 'externalSubset' = 'internal';
+    const emplaceDtd = (dtd: XMLDtdDecl) => {
+        if (!currDoctype) throw internalError('Curr doctype not defined');
+        if (!currDoctype[dtdSubset]) currDoctype[dtdSubset] = [];
+        currDoctype[dtdSubset]!.push(dtd);
+    }
+    const onDtdDecl = (dtd: XMLDtdDecl) => {
+        if (props.locations && dtdSubset == 'internal') dtd.position = getPosition(tokenStartAbs);
+        emplaceDtd(dtd);
+        emit(props.onDtdDecl, dtd);
+    }
+
+    // Parameter entities declared so far, by name
+    const parameterEntities: Map<string, Dtd_ENTITY> = new Map();
+    const loadExternal = (id: XMLExternalId): string | undefined => {
+        const text = props.resolveEntity?.(id);
+        if (text == undefined) return undefined;
+        return typeof text == 'string' ? text : toBuffer(text).toString('utf-8');
+    }
+    // Replacement text of a parameter entity, or undefined if it's undeclared or unresolved
+    const getParameterEntityText = (name: string): string | undefined => {
+        const pe = parameterEntities.get(name);
+        if (!pe) return undefined;
+        if (pe.systemId == undefined) return pe.value;
+        return loadExternal({ publicId: pe.publicId, systemId: pe.systemId });
+    }
+    // Replace %name; references inside a declaration
+    const expandParameterEntities = (text: string, depth: number = 0): string => {
+        if (!text.includes('%')) return text;
+        if (depth > k_ENTITY_MAX_DEPTH) {
+            throw new XMLParseError('MALFORMED_DTD', 'Parameter entity references nest too deeply');
+        }
+        return text.replace(k_PARAMETER_ENTITY_REF_REGEX, (ref: string, name: string) => {
+            const value = getParameterEntityText(name);
+            if (value == undefined) return ref;
+            const expanded = expandParameterEntities(value, depth + 1);
+            chargeExpansion(entities, expanded.length);
+            return expanded;
+        });
+    }
+    // `SYSTEM "sys"` or `PUBLIC "pub" "sys"` at parts[at]; the NOTATION form may omit "sys"
+    const parseExternalId = (parts: string[], at: number): Partial<XMLExternalId> => {
+        if (parts[at] == 'SYSTEM') return { systemId: trimQuotes(parts[at + 1] ?? '') };
+        if (parts[at] != 'PUBLIC') return {};
+        const id: Partial<XMLExternalId> = { publicId: trimQuotes(parts[at + 1] ?? '') };
+        const systemId = parts[at + 2];
+        if (systemId?.at(0) == '"' || systemId?.at(0) == "'") id.systemId = trimQuotes(systemId);
+        return id;
+    }
+
+    // DTD declarations. `content` is what follows the keyword, `source` the whole declaration
+    const handleDtdElement = (content: string, source: string) => {
+        const parts = splitAroundBoundaries(content.trim());
+        const elementName = parts[0];
+        // The rest of the declaration, since models like ((a|b), c)* span several parts
+        const contentModel = content.trim().slice(elementName.length).trim();
+
+        let dtd: Dtd_ELEMENT = {
+            tagName: '!ELEMENT', elementName, contentModel
+        };
+        try {
+            dtd.model = parseContentModel(contentModel);
+        } catch (err) {
+            if (!props.recover || !(err instanceof XMLParseError)) throw err;
+            warn('MALFORMED_DTD', err.reason);
+        }
+
+        if (props.addSource?.['!ELEMENT']) {
+            dtd.source = source;
+        }
+
+        onDtdDecl(dtd);
+    }
+    const handleDtdEntity = (content: string, source: string) => {
+        const parts = splitAroundBoundaries(content.trim());
+        const parameter = parts[0] == '%';
+        if (parameter) parts.shift();
+        const key = parts[0];
+        const value = parts[1];
+        let dtd: Dtd_ENTITY = {
+            tagName: '!ENTITY',
+            key,
+            value: '',
+        };
+        const externalId = parseExternalId(parts, 1);
+        if (externalId.systemId != undefined) {
+            Object.assign(dtd, externalId);
+            const afterId = externalId.publicId == undefined ? 3 : 4;
+            if (parts[afterId] == 'NDATA') dtd.notation = parts[afterId + 1];
+        }
+        else {
+            dtd.value = trimQuotes(value);
+            if (findBareAmpersand(dtd.value) >= 0) onBareAmpersand();
+        }
+
+        if (parameter) {
+            dtd.parameter = true;
+            if (!parameterEntities.has(key)) parameterEntities.set(key, dtd);
+        }
+        else if (externalId.systemId == undefined && !entities.declared.has(key)) {
+            entities.declared.set(key, dtd.value);
+            // Values expanded so far may have referenced it before it was declared
+            entities.expanded.clear();
+        }
+
+        if (props.addSource?.['!ENTITY']) {
+            dtd.source = source;
+        }
+
+        onDtdDecl(dtd);
+    }
+    const handleDtdNotation = (content: string, source: string) => {
+        const parts = splitAroundBoundaries(content.trim());
+        let dtd: Dtd_NOTATION = {
+            tagName: '!NOTATION',
+            name: parts[0],
+            ...parseExternalId(parts, 1),
+        };
+
+        if (props.addSource?.['!NOTATION']) {
+            dtd.source = source;
+        }
+
+        onDtdDecl(dtd);
+    }
+    const handleDtdAttlist = (content: string, source: string) => {
+        const parts = splitAroundBoundaries(content.trim());
+
+        const elementName = parts[0];
+        let dtd: Dtd_ATTLIST = {
+            tagName: '!ATTLIST',
+            elementName,
+            attributes: [],
+        };
+
+        const defaultAttr = () => ({
+            attributeName: '',
+            dataType: '',
+            defaultDeclaration: {}
+        });
+
+        let currAttr: Dtd_ATTLIST_Attr = defaultAttr();
+
+        for (let i = 1; i < parts.length; i++) {
+            const part = parts[i];
+            if (part.at(0) == '#')
+                currAttr.defaultDeclaration.defaultType = part;
+            else if (part.at(0) == '"' || part.at(0) == "'")
+                currAttr.defaultDeclaration.defaultValue = trimQuotes(part);
+            else {
+                if (currAttr.attributeName == '')
+                    currAttr.attributeName = part;
+                else if (currAttr.dataType == '')
+                    currAttr.dataType = part;
+                else if (currAttr.dataType == 'NOTATION' && part.at(0) == '(')
+                    currAttr.dataType += ' ' + part;
+                else {
+                    dtd.attributes.push(currAttr);
+                    currAttr = defaultAttr();
+                    currAttr.attributeName = part;
+                }
+            }
+        }
+        if (currAttr.attributeName != '' && currAttr.dataType != '') {
+            dtd.attributes.push(currAttr);
+            currAttr = defaultAttr();
+        }
+
+        if (props.addSource?.['!ATTLIST']) {
+            dtd.source = source;
+        }
+        onDtdDecl(dtd);
+    }
+
+    const getNamespaceScope = (): Map<string, string> =>
+        openNamespaces[openNamespaces.length - 1] ?? k_DEFAULT_NAMESPACES;
+    const resolveQName = (rawName: string, scope: Map<string, string>, isAttribute: boolean): XMLQName => {
+        const colon = rawName.indexOf(':');
+        const prefix = colon < 0 ? '' : rawName.slice(0, colon);
+        const localName = rawName.slice(colon + 1);
+        // Unprefixed attributes are in no namespace, whatever the default namespace is
+        if (isAttribute && !prefix) {
+            return rawName == 'xmlns' ? { prefix, localName, namespaceURI: k_XMLNS_NAMESPACE } : { prefix, localName };
+        }
+        const namespaceURI = scope.get(prefix);
+        if (namespaceURI == undefined) {
+            if (prefix) {
+                const reason = `Namespace prefix '${prefix}' is not declared`;
+                if (!props.recover) throw new XMLParseError('UNBOUND_PREFIX', reason);
+                warn('UNBOUND_PREFIX', reason);
+            }
+            return { prefix, localName };
+        }
+        return { prefix, localName, namespaceURI };
+    }
+    // Apply the tag's xmlns declarations on top of the enclosing scope, and resolve the
+    // tag's names against the result
+    const resolveNamespaces = (tag: PTagProps): Map<string, string> => {
+        const parentScope = getNamespaceScope();
+        let scope = parentScope;
+        for (const [key, value] of Object.entries(tag.attributes ?? {})) {
+            if (key != 'xmlns' && !key.startsWith('xmlns:')) continue;
+            if (scope === parentScope) scope = new Map(parentScope);
+            const prefix = key == 'xmlns' ? '' : key.slice('xmlns:'.length);
+            // xmlns="" undeclares the default namespace
+            if (value) scope.set(prefix, value);
+            else scope.delete(prefix);
+        }
+
+        tag.name = resolveQName(tag.tagName, scope, false);
+        if (tag.attributes) {
+            const attributeNames: Partial<Record<PAttrKey, XMLQName>> = {};
+            for (const key of Object.keys(tag.attributes) as PAttrKey[]) {
+                attributeNames[key] = resolveQName(key, scope, true);
+            }
+            tag.attributeNames = attributeNames;
+        }
+        return scope;
+    }
+
+    // Subscription handlers whose selectors match `tag`, about to be opened below openTags
+    const getSubscribers = (tag: PTagProps): XMLSubscriber[] | undefined => {
+        if (!subscriptions) return undefined;
+        const tags = (i: number) => i < openTags.length ? openTags[i] : tag;
+        let subscribers: XMLSubscriber[] | undefined = undefined;
+        for (const { steps, handler } of subscriptions) {
+            if (!matchSelector(steps, tags, steps.length - 1, openTags.length)) continue;
+            subscribers ??= [];
+            subscribers.push(handler);
+        }
+        return subscribers;
+    }
+    // Whether to build the element about to be opened. With subscriptions, only matched
+    // elements and their descendants are built.
+    const shouldBuild = (subscribers: XMLSubscriber[] | undefined): boolean => {
+        if (openTags.length == 0 && props.skipRoot) return false;
+        return !subscriptions || subscribers != undefined || getTopElement() != undefined;
+    }
+
+    const pushElement = (tag: PTagProps, stripped: string, namespaces: Map<string, string>) => {
+        const subscribers = getSubscribers(tag);
+        let el: PElement | undefined = undefined;
+        if (shouldBuild(subscribers)) {
+            el = { ...tag, children: [] };
+            if (props.addSource?.[tag.tagName]) {
+                el.source = stripped;
+            }
+            if (props.locations) {
+                const start = getPosition(tokenStartAbs);
+                el.location = { start, end: start };
+            }
+        }
+
+        const space = tag.attributes?.['xml:space'];
+        const spaceMode: XMLWhitespaceMode =
+            space == 'preserve' ? 'preserve'
+            : space == 'default' ? props.whitespace ?? 'trim'
+            : getWhitespaceMode();
+
+        openTags.push(tag);
+        openElements.push(el);
+        openSpaceModes.push(spaceMode);
+        openNamespaces.push(namespaces);
+        openSubscribers.push(subscribers);
+        openStarts.push(tokenStartAbs);
+    }
+
+    // Complete the element at the top of the stack
+    const closeElement = (tagName: PTagName) => {
+        const top = openTags[openTags.length - 1];
+        if (!top) {
+            throw new XMLParseError('UNEXPECTED_TOKEN', `End tag </${tagName}> has no open element`);
+        }
+        if (top.tagName != tagName) {
+            throw new XMLParseError('MISMATCHED_TAG',
+                `End tag </${tagName}> does not match open element <${top.tagName}>`);
+        }
+
+        flushText();
+        validator?.closeElement();
+        const el = openElements[openElements.length - 1];
+        if (el) {
+            if (el.location) el.location.end = getPosition(dataStart + pos);
+            emittedStartAbs = openStarts[openStarts.length - 1];
+            emitElement(el, openSubscribers[openSubscribers.length - 1]);
+            const parent = openElements[openElements.length - 2];
+            if (parent) emplaceChild(parent, el, el.location?.start);
+        }
+        openTags.pop();
+        openElements.pop();
+        openSpaceModes.pop();
+        openNamespaces.pop();
+        openSubscribers.pop();
+        openStarts.pop();
+
+        emit(props.onCloseTag, tagName);
+        checkpoint();
+    }
+    // Close unclosed elements above the nearest open `tagName` (or all of them)
+    const autoCloseUntil = (tagName?: PTagName) => {
+        let top = openTags[openTags.length - 1];
+        while (top && top.tagName != tagName) {
+            warn('AUTO_CLOSED_ELEMENT', `Closed unclosed element <${top.tagName}>`);
+            closeElement(top.tagName);
+            top = openTags[openTags.length - 1];
+        }
+    }
+
+    const handleTag = (withoutBrackets: string): boolean => {
+        let stripped = withoutBrackets.trimEnd();
+        const hasFrontSlash: boolean = stripped.at(0) == '/';
+        if (hasFrontSlash) {
+            stripped = stripped.substring(1);
+        }
+        const hasBackSlash: boolean = stripped.at(-1) == '/';
+        if (hasBackSlash) {
+            stripped = stripped.slice(0, -1).trimEnd();
+        }
+
+        const prevToken = openTags[openTags.length - 1];
+
+        // End tag
+        if (hasFrontSlash) {
+            const tagName = stripped as PTagName;
+            if (prevToken?.tagName == tagName || !props.recover) {
+                closeElement(tagName);
+                return true;
+            }
+            // Mismatched end tag: close up to the matching ancestor or drop it
+            const isOpen = openTags.some((tok) => tok.tagName == tagName);
+            if (!isOpen) {
+                warn('STRAY_END_TAG', `Dropped end tag </${tagName}> with no open element`);
+                return true;
+            }
+            autoCloseUntil(tagName);
+            closeElement(tagName);
+            return true;
+        }
+
+        const [tagName, rawAttributes] = p_getTagAttrsFromStripped(stripped, recoverAttribute);
+        const attributes = decodeAttributes(rawAttributes);
+        const tag: PTagProps = { tagName, attributes };
+        if (attlists) applyAttributeDeclarations(tag);
+        const namespaces = props.namespaces ? resolveNamespaces(tag) : getNamespaceScope();
+
+        checkRoot(tagName);
+        // Self-closing tag
+        if (hasBackSlash) {
+            flushText();
+            validator?.openElement(tag);
+            validator?.closeElement();
+            const subscribers = getSubscribers(tag);
+            if (!subscriptions || shouldBuild(subscribers)) {
+                const el: PElement = tag;
+                if (props.locations) {
+                    el.location = { start: getPosition(tokenStartAbs), end: getPosition(dataStart + pos) };
+                }
+                const parent = getTopElement();
+                if (parent) emplaceChild(parent, el, el.location?.start);
+
+                emittedStartAbs = tokenStartAbs;
+                emitElement(el, subscribers);
+            }
+            emit(props.onSelfcloseTag, tag);
+            checkpoint();
+        }
+        // Start tag
+        else {
+            flushText();
+            validator?.openElement(tag);
+            if (openTags.length == 0 && prologChunks) {
+                prolog = Buffer.concat(prologChunks).toString('utf-8', 0, dataStart + pos);
+                prologChunks = undefined;
+            }
+            pushElement(tag, stripped, namespaces);
+            emit(props.onOpenTag, { ...tag });
+        }
+
+        return true;
+    }
+
+    // Token scanners. Each handles the token at `pos` and returns true once it has been
+    // consumed, or false if `data` ends before the token does.
+
+    // Report each bare '&' in the text from `pos` to `end` at its own position
+    const checkAmpersands = (end: number) => {
+        const amp = data.indexOf(k_AMP, pos);
+        if (amp < 0 || amp >= end) return;
+        const text = data.toString('utf-8', amp, end);
+        const textStartAbs = tokenStartAbs;
+        for (let i = findBareAmpersand(text); i >= 0; i = findBareAmpersand(text, i + 1)) {
+            tokenStartAbs = dataStart + amp + Buffer.byteLength(text.slice(0, i));
+            onBareAmpersand();
+        }
+        tokenStartAbs = textStartAbs;
+    }
+
+    const scanText = (final: boolean): boolean => {
+        let end = data.indexOf(k_LT, pos);
+        if (end < 0) {
+            if (!final) return false;
+            end = data.length;
+        }
+        handleText(end);
+        return true;
+    }
+    // Take the input from `pos` to `end` as text
+    const handleText = (end: number) => {
+        if ((validator && !validator.acceptsText()) || openTags.length == 0) {
+            for (let i = pos; i < end; i++) {
+                if (isWhitespaceByte(data[i])) continue;
+                if (openTags.length == 0) reportOutsideRoot('Text');
+                else validator?.text();
+                break;
+            }
+        }
+        checkAmpersands(end);
+        // Text is only kept inside elements being built
+        if (getTopElement()) {
+            // Whitespace-only runs are dropped when trimming, so skip decoding them
+            let isBlank = currText == undefined && getWhitespaceMode() == 'trim';
+            for (let i = pos; isBlank && i < end; i++) {
+                if (!isWhitespaceByte(data[i])) isBlank = false;
+            }
+            if (!isBlank) {
+                if (currText == undefined) currTextPosition = locate(tokenStartAbs);
+                currText = (currText ?? '') + data.toString('utf-8', pos, end);
+            }
+        }
+        pos = end;
+    }
+
+    const scanComment = (): boolean => {
+        const end = data.indexOf(k_COMMENT_CLOSE, pos + k_COMMENT_OPEN.length);
+        if (end < 0) return false;
+        const contents = data.toString('utf-8', pos + k_COMMENT_OPEN.length, end);
+        pos = end + k_COMMENT_CLOSE.length;
+        emit(props.onComment, '<!--' + contents + '-->', locate(tokenStartAbs));
+        return true;
+    }
+
+    const scanCData = (): boolean => {
+        const end = data.indexOf(k_CDATA_CLOSE, pos + k_CDATA_OPEN.length);
+        if (end < 0) return false;
+        const contents = data.toString('utf-8', pos + k_CDATA_OPEN.length, end);
+        pos = end + k_CDATA_CLOSE.length;
+        handleCData(contents);
+        return true;
+    }
+
+    const scanProcessingInstruction = (): boolean => {
+        const end = data.indexOf(k_PI_CLOSE, pos + 2);
+        if (end < 0) return false;
+        const contents = data.toString('utf-8', pos + 2, end);
+        pos = end + k_PI_CLOSE.length;
+        handleProcessingInstruction(contents);
+        return true;
+    }
+
+    const scanDoctype = (): boolean => {
+        if (sawDoctype || sawRoot) {
+            throw new XMLParseError('MISPLACED_DOCTYPE', sawDoctype
+                ? 'The document has more than one DOCTYPE'
+                : 'The DOCTYPE must come before the root element');
+        }
+        // The DOCTYPE ends at `>`, or its internal subset starts at `[`
+        let end = pos + k_DOCTYPE_OPEN.length;
+        let quote = 0;
+        for (; end < data.length; end++) {
+            const b = data[end];
+            if (quote) {
+                if (b == quote) quote = 0;
+            }
+            else if (b == k_QUOT || b == k_APOS) quote = b;
+            else if (b == k_LBRACKET || b == k_GT) break;
+        }
+        if (end >= data.length) return false;
+        sawDoctype = true;
+
+        const content = data.toString('utf-8', pos + k_DOCTYPE_OPEN.length, end).trim();
+        pos = end + 1;
+        const parts = splitAroundBoundaries(content);
+        const externalId = parseExternalId(parts, 1);
+        currDoctype = { rootTagName: parts[0] ?? '' };
+        if (externalId.publicId != undefined) currDoctype.public = externalId.publicId;
+        if (externalId.systemId != undefined) currDoctype.external = externalId.systemId;
+
+        if (data[end] == k_LBRACKET) inDtdSubset = true;
+        else endDoctype();
+        return true;
+    }
+
+    // The internal subset takes precedence, so the external subset is read after it
+    const endDoctype = () => {
+        if (!currDoctype) throw internalError('currDocType is undefined');
+        const systemId = currDoctype.external;
+        const text = systemId == undefined ? undefined : loadExternal({ publicId: currDoctype.public, systemId });
+        if (text != undefined) {
+            dtdSubset = 'externalSubset';
+            processDtdText(text, 0);
+            dtdSubset = 'internal';
+        }
+        if (props.validate || props.attributeDefaults) {
+            const declarations = collectDtdDeclarations(currDoctype);
+            if (props.attributeDefaults) attlists = declarations.attlists;
+            if (props.validate) validator = createDtdValidator(declarations, currDoctype, reportInvalid, getErrorContext);
+        }
+        emit(props.onDoctype, { ...currDoctype });
+        currDoctype = undefined;
+    }
+
+    // Handle the DTD markup at buf[at]: a declaration, comment, PI, conditional section or
+    // parameter entity reference. Returns the index past it, or -1 if `buf` ends first.
+    const scanDtdMarkup = (buf: Buffer, at: number, depth: number): number => {
+        if (buf[at] == k_PERCENT) {
+            const end = buf.indexOf(k_SEMICOLON, at);
+            if (end < 0) return -1;
+            const text = getParameterEntityText(buf.toString('utf-8', at + 1, end));
+            if (text != undefined) processDtdText(text, depth + 1);
+            return end + 1;
+        }
+        if (buf[at] != k_LT) {
+            throw new XMLParseError('UNEXPECTED_TOKEN', 'Unexpected text in the DTD');
+        }
+
+        const isComment = matchesAt(buf, at, k_COMMENT_OPEN);
+        if (isComment) {
+            const end = buf.indexOf(k_COMMENT_CLOSE, at + k_COMMENT_OPEN.length);
+            if (end < 0) return -1;
+            const position = dtdSubset == 'internal' ? locate(tokenStartAbs) : undefined;
+            emit(props.onComment, buf.toString('utf-8', at, end + k_COMMENT_CLOSE.length), position);
+            return end + k_COMMENT_CLOSE.length;
+        }
+        if (at + 1 >= buf.length) return -1;
+        if (buf[at + 1] == k_QMARK) {
+            const end = buf.indexOf(k_PI_CLOSE, at + 2);
+            if (end < 0) return -1;
+            handleProcessingInstruction(buf.toString('utf-8', at + 2, end));
+            return end + k_PI_CLOSE.length;
+        }
+        const isConditional = matchesAt(buf, at, k_CONDITIONAL_OPEN);
+        if (isConditional) return scanConditionalSection(buf, at, depth);
+
+        let undecided = isComment == undefined || isConditional == undefined;
+        for (const [open, tagName] of k_DTD_DECL_OPEN) {
+            const isMatch = matchesAt(buf, at, open);
+            if (isMatch == undefined) undecided = true;
+            if (!isMatch) continue;
+
+            const end = findMarkupEnd(buf, at + open.length);
+            if (end < 0) return -1;
+            const content = expandParameterEntities(buf.toString('utf-8', at + open.length, end));
+            const source = buf.toString('utf-8', at, end + 1);
+            if (tagName == '!ELEMENT') handleDtdElement(content, source);
+            else if (tagName == '!ATTLIST') handleDtdAttlist(content, source);
+            else if (tagName == '!ENTITY') handleDtdEntity(content, source);
+            else if (tagName == '!NOTATION') handleDtdNotation(content, source);
+            return end + 1;
+        }
+        if (undecided) return -1;
+        throw new XMLParseError('UNEXPECTED_TOKEN', 'Unexpected markup in the DTD');
+    }
+
+    // <![INCLUDE[ ... ]]> and <![IGNORE[ ... ]]>, which may nest. The keyword may come
+    // from a parameter entity, e.g. <![%draft;[ ... ]]>.
+    const scanConditionalSection = (buf: Buffer, at: number, depth: number): number => {
+        const bodyStart = buf.indexOf(k_LBRACKET, at + k_CONDITIONAL_OPEN.length);
+        if (bodyStart < 0) return -1;
+        let nesting = 1;
+        let i = bodyStart + 1;
+        while (nesting > 0) {
+            const open = buf.indexOf(k_CONDITIONAL_OPEN, i);
+            const close = buf.indexOf(k_CONDITIONAL_CLOSE, i);
+            if (close < 0) return -1;
+            if (open >= 0 && open < close) {
+                nesting++;
+                i = open + k_CONDITIONAL_OPEN.length;
+            }
+            else {
+                nesting--;
+                i = close + k_CONDITIONAL_CLOSE.length;
+            }
+        }
+
+        const keyword = expandParameterEntities(
+            buf.toString('utf-8', at + k_CONDITIONAL_OPEN.length, bodyStart)).trim();
+        if (keyword == 'INCLUDE') {
+            processDtdText(buf.toString('utf-8', bodyStart + 1, i - k_CONDITIONAL_CLOSE.length), depth + 1);
+        }
+        else if (keyword != 'IGNORE') {
+            throw new XMLParseError('MALFORMED_DTD', `Unknown conditional section keyword '${keyword}'`);
+        }
+        return i;
+    }
+
+    // Handle the declarations in the text of an external subset or parameter entity
+    const processDtdText = (text: string, depth: number) => {
+        if (depth > k_ENTITY_MAX_DEPTH) {
+            throw new XMLParseError('MALFORMED_DTD', 'Parameter entity references nest too deeply');
+        }
+        // External entities may start with a <?xml ?> text declaration
+        const buf = Buffer.from(text.replace(k_TEXT_DECLARATION_REGEX, ''), 'utf-8');
+        let at = 0;
+        while (true) {
+            while (at < buf.length && isWhitespaceByte(buf[at])) at++;
+            if (at >= buf.length) return;
+            const end = scanDtdMarkup(buf, at, depth);
+            if (end < 0) throw new XMLParseError('MALFORMED_DTD', 'Unterminated markup in the DTD');
+            at = end;
+        }
+    }
+
+    const scanDtdSubset = (): boolean => {
+        while (pos < data.length && isWhitespaceByte(data[pos])) pos++;
+        if (pos >= data.length) return false;
+        tokenStartAbs = dataStart + pos;
+
+        if (data[pos] == k_RBRACKET) {
+            let end = pos + 1;
+            while (end < data.length && isWhitespaceByte(data[end])) end++;
+            if (end >= data.length) return false;
+            if (data[end] != k_GT) {
+                throw new XMLParseError('UNEXPECTED_TOKEN', "Expected '>' after the DOCTYPE internal subset");
+            }
+            pos = end + 1;
+            inDtdSubset = false;
+            endDoctype();
+            return true;
+        }
+
+        const end = scanDtdMarkup(data, pos, 0);
+        if (end < 0) return false;
+        pos = end;
+        return true;
+    }
+
+    // Markup starting with `<` outside the DTD
+    const scanMarkup = (): boolean => {
+        if (pos + 1 >= data.length) return false;
+        const next = data[pos + 1];
+
+        if (next != k_QMARK && next != k_BANG) {
+            const validName = isTagNameAt(data, next == k_SLASH ? pos + 2 : pos + 1);
+            if (validName == undefined) return false;
+            if (!validName) {
+                const reason = "'<' is not followed by a valid tag name";
+                if (!props.recover) throw new XMLParseError('INVALID_NAME', reason);
+                warn('INVALID_NAME', reason + ', kept as text');
+                handleText(pos + 1);
+                return true;
+            }
+        }
+
+        if (next == k_SLASH) {
+            const end = data.indexOf(k_GT, pos + 2);
+            if (end < 0) return false;
+            const tagContents = data.toString('utf-8', pos + 1, end);
+            pos = end + 1;
+            handleTag(tagContents);
+            return true;
+        }
+        if (next == k_QMARK) return scanProcessingInstruction();
+        if (next == k_BANG) {
+            const isComment = matchesAt(data, pos, k_COMMENT_OPEN);
+            if (isComment) return scanComment();
+            const isCData = matchesAt(data, pos, k_CDATA_OPEN);
+            if (isCData) return scanCData();
+            const isDoctype = matchesAt(data, pos, k_DOCTYPE_OPEN);
+            if (isDoctype) return scanDoctype();
+            if (isComment == undefined || isCData == undefined || isDoctype == undefined) return false;
+            throw new XMLParseError('UNEXPECTED_TOKEN', "Unexpected markup after '<!'");
+        }
+
+        const end = findMarkupEnd(data, pos + 1);
+        if (end < 0) return false;
+        const tagContents = data.toString('utf-8', pos + 1, end);
+        pos = end + 1;
+        handleTag(tagContents);
+        return true;
+    }
+
+    // Handle every complete token in `data`. With `final`, a trailing text run counts as
+    // complete. Returns whether all of `data` was consumed.
+    const scan = (final: boolean): boolean => {
+        if (!bomChecked) {
+            const hasBom = matchesAt(data, 0, k_UTF8_BOM);
+            if (hasBom == undefined && !final) return false;
+            bomChecked = true;
+            if (hasBom) {
+                pos = docStartAbs = columnAbs = k_UTF8_BOM.length;
+            }
+        }
+
+        while (pos < data.length) {
+            if (paused || isHalted()) return true;
+            tokenStartAbs = dataStart + pos;
+
+            let consumed: boolean;
+            if (inDtdSubset) consumed = scanDtdSubset();
+            else if (data[pos] != k_LT) consumed = scanText(final);
+            else consumed = scanMarkup();
+            if (!consumed) return false;
+        }
+        return true;
+    }
+
+    // Drop consumed input, keeping line tracking up to date and a little of it for snippets
+    const compact = () => {
+        const consumedAbs = dataStart + pos;
+        advanceLines(consumedAbs);
+        advanceColumn(consumedAbs);
+        const keep = Math.max(0, pos - k_SNIPPET_RADIUS);
+        data = data.subarray(keep);
+        dataStart += keep;
+        pos -= keep;
+    }
+
+    // Locate parse errors raised below; errors thrown by user callbacks pass through as-is
+    const withErrorContext = (err: unknown): unknown => {
+        if (!(err instanceof XMLParseError) || err.position) return err;
+        return new XMLParseError(err.code, err.reason, getErrorContext(), err.cause);
+    }
+
+    // What the input ended inside of, for UNEXPECTED_EOF
+    const describeOpenMarkup = (): string | undefined => {
+        if (inDtdSubset) return "'<!DOCTYPE'";
+        if (pos < data.length) {
+            if (matchesAt(data, pos, k_COMMENT_OPEN) != false) return "'<!--'";
+            if (matchesAt(data, pos, k_CDATA_OPEN) != false) return "'<![CDATA['";
+            if (matchesAt(data, pos, k_DOCTYPE_OPEN) != false) return "'<!DOCTYPE'";
+            if (data[pos + 1] == k_QMARK) return "'<?'";
+            return "'<'";
+        }
+        const top = openTags[openTags.length - 1];
+        return top ? `<${top.tagName}>` : undefined;
+    }
+
+    const write = (chunk: string | Uint8Array) => {
+        paused = false;
+        const bytes = toBuffer(chunk);
+        prologChunks?.push(bytes);
+        data = data.length > 0 ? Buffer.concat([data, bytes]) : bytes;
+        try {
+            scan(false);
+            compact();
+        } catch (err) {
+            throw withErrorContext(err);
+        }
+    }
+
+    // Rebuild the state after the root start tag from the checkpoint's prolog, then carry
+    // on from its position as if the input in between had been read
+    if (props.resumeFrom) {
+        const { prolog: resumeProlog, position } = props.resumeFrom;
+        replaying = true;
+        write(resumeProlog);
+        replaying = false;
+        if (openTags.length != 1 || pos < data.length) {
+            throw new XMLParseError('INVALID_CHECKPOINT', 'Checkpoint prolog does not end with the root start tag');
+        }
+        data = Buffer.alloc(0);
+        pos = 0;
+        dataStart = tokenStartAbs = checkpointAbs = position.offset;
+        line = position.line;
+        lineStartAbs = lineScanAbs = newlineFreeUntil = columnAbs = position.offset;
+        columnChars = position.column - 1;
+    }
+
+    return {
+        write,
+        end: () => {
+            paused = false;
+            try {
+                scan(true);
+                if (paused || isHalted()) return;
+                if (props.recover && pos >= data.length && !inDtdSubset) {
+                    flushText();
+                    autoCloseUntil();
+                }
+                if (openTags.length == 0 && pos >= data.length) validator?.end();
+            } catch (err) {
+                throw withErrorContext(err);
+            }
+            const openMarkup = describeOpenMarkup();
+            if (openMarkup) {
+                tokenStartAbs = dataStart + pos;
+                throw new XMLParseError('UNEXPECTED_EOF',
+                    `Unexpected end of input inside ${openMarkup}`, getErrorContext());
+            }
+            if (!sawRoot) {
+                tokenStartAbs = dataStart + pos;
+                throw new XMLParseError('NO_ROOT_ELEMENT', 'The document has no root element', getErrorContext());
+            }
+        },
+        halted: () => isHalted() ? halted : undefined,
+        elementSpan: () => ({ start: emittedStartAbs, end: dataStart + pos }),
+        subscribedFrom: () => {
+            const depth = openSubscribers.findIndex((subscribers) => subscribers != undefined);
+            return depth < 0 ? undefined : openStarts[depth];
+        },
+        consumed: () => dataStart + pos,
+        tokenStart: () => tokenStartAbs,
+        pause: () => { paused = true },
+    };
+}
+
+export async function parseXML<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+>(
+    source: XMLSource,
+    props: XMLParserProps<PTagName, PAttrKey, PSchemaElement> = {}
+): Promise<XMLParseStatus> {
+    const parser = createXMLParser<PTagName, PAttrKey, PSchemaElement>(props);
+    const stream = openSourceStream(source, props.resumeFrom?.position.offset);
+
+    // Attach handlers in promise
+    return new Promise((resolve, reject) => {
+        const finish = (status: XMLParseStatus) => {
+            props.signal?.removeEventListener('abort', onAbort);
+            if (status != 'completed') stream.destroy();
+            resolve(status);
+        }
+        const onAbort = () => finish('aborted');
+
+        const fail = (err: unknown) => {
+            props.signal?.removeEventListener('abort', onAbort);
+            stream.destroy();
+            reject(err);
+        }
+
+        try {
+            if (props.signal?.aborted) return finish('aborted');
+            props.signal?.addEventListener('abort', onAbort);
+
+            stream.on('data', (c) => {
+                try {
+                    parser.write(c);
+                } catch (err) {
+                    return fail(err);
+                }
+                const halted = parser.halted();
+                if (halted) finish(halted);
+            });
+
+            stream.on('end', () => {
+                try {
+                    parser.end();
+                } catch (err) {
+                    return fail(err);
+                }
+                finish(parser.halted() ?? 'completed');
+            })
+
+            stream.on('error', (err) => {
+                fail(new XMLParseError('IO_ERROR', err.message, undefined, err));
+            })
+        } catch (err) {
+            fail(err);
+        }
+    })
+}
+
+// Parse XML text held in memory, e.g. a test fixture or a response body
+export async function parseXMLString<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+>(
+    xml: string,
+    props: XMLParserProps<PTagName, PAttrKey, PSchemaElement> = {}
+): Promise<XMLParseStatus> {
+    return parseXML<PTagName, PAttrKey, PSchemaElement>(Readable.from([xml]), props);
+}
+
+export type PeruseOptions<
+    PTagName extends XMLTagName,
+    PAttrKey extends XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+> = XMLParserProps<PTagName, PAttrKey, PSchemaElement> & {
+    // Only yield elements with these tag names, and only build them and their descendants.
+    // Yields every element if unset, the root last with the whole document in it.
+    select?: PTagName | PTagName[];
+};
+
+// Iterate over parsed elements with `for await`. Parsing pauses after each element until
+// the consumer pulls it, so the source is only read as fast as elements are consumed, and
+// leaving the loop early destroys the stream. Iteration also ends once a handler returns
+// STOP or `signal` is aborted.
+export async function* peruse<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+>(
+    source: XMLSource,
+    options: PeruseOptions<PTagName, PAttrKey, PSchemaElement> = {}
+): AsyncGenerator<ParamXMLElement<PTagName, PAttrKey>, void, undefined> {
+    type PElement = ParamXMLElement<PTagName, PAttrKey>;
+    const { select, ...props } = options;
+    const selected: PTagName[] | undefined =
+        select == undefined ? undefined : Array.isArray(select) ? select : [select];
+
+    // Elements completed by the last token parsed, drained before parsing goes on. Checkpoints
+    // wait in line, so they're handed out only once the elements before them are consumed.
+    const queue: ({ element: PElement } | { checkpoint: XMLCheckpoint })[] = [];
+    const enqueue = (el: PElement) => {
+        queue.push({ element: el });
+        parser.pause();
+    }
+    const onCheckpoint = props.onCheckpoint;
+    function* drain(): Generator<PElement, void, undefined> {
+        while (queue.length > 0 && !props.signal?.aborted) {
+            const item = queue.shift()!;
+            if ('element' in item) yield item.element;
+            else onCheckpoint?.(item.checkpoint);
+        }
+    }
+    // Selected tag names are subscribed to, so nothing outside them is built
+    let subscriptions = props.subscriptions;
+    if (selected) {
+        subscriptions = { ...subscriptions };
+        for (const tagName of selected) {
+            const handler = subscriptions[tagName];
+            subscriptions[tagName] = handler
+                ? (el) => { enqueue(el); return handler(el) }
+                : enqueue;
+        }
+    }
+    const parser: XMLChunkParser = createXMLParser<PTagName, PAttrKey, PSchemaElement>({
+        ...props,
+        subscriptions,
+        onCheckpoint: onCheckpoint && ((checkpoint) => { queue.push({ checkpoint }) }),
+        onElement: selected ? props.onElement : (el) => {
+            enqueue(el);
+            return props.onElement?.(el);
+        },
+    });
+
+    const stream = openSourceStream(source, props.resumeFrom?.position.offset);
+    try {
+        for await (const c of stream) {
+            parser.write(c);
+            while (queue.length > 0) {
+                yield* drain();
+                if (parser.halted()) return;
+                parser.write(k_NO_INPUT);
+            }
+            if (parser.halted()) return;
+        }
+        parser.end();
+        while (queue.length > 0) {
+            yield* drain();
+            if (parser.halted()) return;
+            parser.end();
+        }
+    } finally {
+        if (!stream.destroyed) stream.destroy();
+    }
+}
+
+// Edits a matched element: return it (changed or not) or another element to write it in
+// its place, a string of XML to write instead, or null to delete it. Returning nothing
+// leaves its bytes as they were.
+export type XMLTransformEdit<PElement = XMLElement> =
+    (el: PElement) => PElement | XMLElement | string | null | undefined | void;
+
+export type XMLTransformOptions<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey
+> = Pick<XMLParserProps<PTagName, PAttrKey>,
+    | 'whitespace' | 'entities' | 'namespaces' | 'attributeDefaults' | 'keepCData' | 'keepProcessingInstructions'
+    | 'recover' | 'onWarning' | 'resolveEntity'
+> & {
+    // Edits keyed by selector (see XMLSelectorStep)
+    edits: Record<string, XMLTransformEdit<ParamXMLElement<PTagName, PAttrKey>>>;
+    // How elements returned from edits are written
+    serialize?: Omit<XMLSerializeOptions, 'declaration' | 'doctype'>;
+};
+
+// A Transform stream of XML bytes that applies `edits` to the elements they match and
+// passes everything else through byte for byte: formatting, comments and the DOCTYPE
+// included. Only matched elements are built, as with `subscriptions`.
+//
+// Input is held back from the start of each open matched element until its edit has run,
+// and from the start of any token that isn't complete yet; the rest is written out as
+// soon as it's parsed. Elements are parsed with whitespace preserved, entity references
+// reported and CDATA and processing instructions kept, so that ones returned unchanged
+// are written back as they were, except for comments inside them.
+export function createXMLTransform<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey
+>(
+    options: XMLTransformOptions<PTagName, PAttrKey>
+): Transform {
+    type PElement = ParamXMLElement<PTagName, PAttrKey>;
+    const { edits, serialize, ...props } = options;
+
+    type PChild = ParamXMLChild<PTagName, PAttrKey>;
+    const parseProps: XMLParserProps<PTagName, PAttrKey> = {
+        whitespace: 'preserve',
+        entities: 'report',
+        keepCData: true,
+        keepProcessingInstructions: true,
+        ...props,
+    };
+    // References kept in attribute values are written back as references
+    const serializeOptions = { keepReferences: parseProps.entities != 'expand', ...serialize };
+
+    // The document's DTD declarations, so strings returned from edits are parsed with its
+    // entities and attribute defaults
+    const dtdDecls: string[] = [];
+    // The nodes in a string of XML returned from an edit, which must be well-formed content.
+    // Prefixes bound outside it can't be resolved, so names are kept as written.
+    const parseFragment = (text: string): PChild[] => {
+        let fragment: PElement | undefined = undefined;
+        const fragmentParser = createXMLParser<PTagName, PAttrKey>({
+            ...parseProps,
+            namespaces: undefined,
+            onElement: (el) => { fragment = el },
+        });
+        fragmentParser.write(`<!DOCTYPE fragment [${dtdDecls.join('')}]><fragment>${text}</fragment>`);
+        fragmentParser.end();
+        return fragment!.children ?? [];
+    }
+
+    // What edits to elements inside an open matched element put in their place, to be
+    // applied to its tree before its own edit runs
+    const nestedResults = new Map<PChild, PChild[]>();
+    const applyNestedResults = (el: PElement) => {
+        if (!el.children) return;
+        el.children = el.children.flatMap((child): PChild[] => {
+            if (typeof child == 'string') return [child];
+            const replacement = nestedResults.get(child);
+            if (!replacement) {
+                applyNestedResults(child as PElement);
+                return [child];
+            }
+            nestedResults.delete(child);
+            return replacement;
+        });
+    }
+
+    // Replacements of complete elements, in document order, waiting to be written
+    const replacements: { start: number; end: number; text: string | undefined }[] = [];
+    const parser = createXMLParser<PTagName, PAttrKey>({
+        ...parseProps,
+        onDtdDecl: (decl) => { dtdDecls.push(formatDtdDecl(decl)) },
+        subscriptions: Object.fromEntries(Object.entries(edits).map(([selector, edit]) => [selector, (el: PElement) => {
+            if (nestedResults.size > 0) applyNestedResults(el);
+            const result = edit(el);
+            if (result === undefined) return;
+            const { start, end } = parser.elementSpan();
+            // Matches inside this element are replaced along with it
+            while (replacements.length > 0 && replacements[replacements.length - 1].start >= start) replacements.pop();
+            // Strings are parsed wherever they're returned, so a malformed one fails the same way
+            const replacement: PChild[] = result === null ? []
+                : typeof result == 'string' ? parseFragment(result)
+                : [result as PElement];
+            const text = result === null ? undefined
+                : typeof result == 'string' ? result
+                : serializeXML(result as XMLElement, serializeOptions);
+            replacements.push({ start, end, text });
+            // Inside another match, whose edit sees this one's result
+            const outerStart = parser.subscribedFrom();
+            if (outerStart != undefined && outerStart < start) nestedResults.set(el, replacement);
+        }])),
+    });
+
+    // Input from `heldStartAbs` on that hasn't been written out yet
+    let held: Buffer = Buffer.alloc(0);
+    let heldStartAbs = 0;
+    // Write out the input up to `toAbs`, with replacements in place of the elements they replace
+    const release = (transform: Transform, toAbs: number) => {
+        const take = (from: number, to: number) => {
+            if (to > from) transform.push(held.subarray(from - heldStartAbs, to - heldStartAbs));
+        }
+        let writtenAbs = heldStartAbs;
+        while (replacements.length > 0 && replacements[0].end <= toAbs) {
+            const { start, end, text } = replacements.shift()!;
+            take(writtenAbs, start);
+            if (text) transform.push(Buffer.from(text, 'utf-8'));
+            writtenAbs = end;
+        }
+        take(writtenAbs, toAbs);
+        held = held.subarray(toAbs - heldStartAbs);
+        heldStartAbs = toAbs;
+    }
+
+    return new Transform({
+        transform(chunk: Buffer | string, _encoding, callback) {
+            const bytes = toBuffer(chunk);
+            held = held.length > 0 ? Buffer.concat([held, bytes]) : bytes;
+            try {
+                parser.write(bytes);
+                release(this, parser.subscribedFrom() ?? parser.consumed());
+                callback();
+            } catch (err) {
+                callback(err as Error);
+            }
+        },
+        flush(callback) {
+            try {
+                parser.end();
+                release(this, heldStartAbs + held.length);
+                callback();
+            } catch (err) {
+                callback(err as Error);
+            }
+        },
+    });
+}
+
+// Random access
+
+// Byte offsets of selected elements in a file, by key. Plain JSON, so it can be saved next
+// to the file and loaded again with JSON.parse.
+export type XMLOffsetIndex = {
+    rootTagName: string;
+    // Byte length of everything up to and including the root start tag
+    prologLength: number;
+    // Size of the indexed file, to tell when the index is out of date
+    size: number;
+    // [start, end) byte offsets of each element, by key, then the [start, end) offsets of
+    // each start tag between the root and the element, when it isn't a child of the root
+    entries: Record<string, [number, number] | [number, number, number[]]>;
+};
+
+// How elements are parsed when building an index and reading from one
+export type XMLIndexParseOptions<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey
+> = Pick<XMLParserProps<PTagName, PAttrKey>,
+    | 'whitespace' | 'entities' | 'namespaces' | 'attributeDefaults' | 'keepCData' | 'keepProcessingInstructions'
+    | 'recover' | 'onWarning' | 'resolveEntity'
+>;
+
+export type XMLIndexOptions<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey
+> = XMLIndexParseOptions<PTagName, PAttrKey> & {
+    // Selector of the elements to index (see XMLSelectorStep), e.g. '/JMdict/entry'
+    select: string;
+    // Key of an element, e.g. the text of a child or an attribute value. Elements without
+    // one aren't indexed, and the first element with a key keeps it.
+    key: (el: ParamXMLElement<PTagName, PAttrKey>) => string | undefined;
+};
+
+// Parse `filePath` once and index where each selected element is. Only selected elements
+// are built.
+export async function buildXMLIndex<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey
+>(
+    filePath: string,
+    options: XMLIndexOptions<PTagName, PAttrKey>
+): Promise<XMLOffsetIndex> {
+    const { select, key, ...props } = options;
+    const index: XMLOffsetIndex = { rootTagName: '', prologLength: 0, size: 0, entries: {} };
+    // Offsets of the open start tags below the root, as start and end in turn
+    const openTagSpans: number[] = [];
+    let depth = 0;
+    const parser = createXMLParser<PTagName, PAttrKey>({
+        ...props,
+        onOpenTag: (tag) => {
+            if (depth++ > 0) {
+                openTagSpans.push(parser.tokenStart(), parser.consumed());
+                return;
+            }
+            index.rootTagName = tag.tagName;
+            index.prologLength = parser.consumed();
+        },
+        onCloseTag: () => {
+            if (--depth > 0) openTagSpans.length -= 2;
+        },
+        subscriptions: {
+            [select]: (el) => {
+                const k = key(el);
+                if (k == undefined || Object.hasOwn(index.entries, k)) return;
+                const { start, end } = parser.elementSpan();
+                // The element's own start tag is still open unless it was self-closing
+                const ancestors = openTagSpans.at(-2) == start ? openTagSpans.slice(0, -2) : [...openTagSpans];
+                index.entries[k] = ancestors.length > 0 ? [start, end, ancestors] : [start, end];
+            },
+        },
+    });
+
+    const stream = fs.createReadStream(filePath);
+    try {
+        for await (const chunk of stream) parser.write(chunk);
+        parser.end();
+    } catch (err) {
+        // Failing to read the file, rather than to parse it
+        if (err === stream.errored) throw new XMLParseError('IO_ERROR', (err as Error).message, undefined, err);
+        throw err;
+    } finally {
+        if (!stream.destroyed) stream.destroy();
+    }
+    index.size = (await fs.promises.stat(filePath)).size;
+    return index;
+}
+
+// Parse the element indexed under `key`, or resolve undefined if there isn't one. Only the
+// file's prolog, the start tags of the element's ancestors and the element are read, so
+// entities declared in the DOCTYPE and namespaces and xml:space declared on ancestors still
+// apply; positions in errors are off, though.
+export async function readElementAt<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey
+>(
+    filePath: string,
+    index: XMLOffsetIndex,
+    key: string,
+    props: XMLIndexParseOptions<PTagName, PAttrKey> = {}
+): Promise<ParamXMLElement<PTagName, PAttrKey> | undefined> {
+    if (!Object.hasOwn(index.entries, key)) return undefined;
+    const [start, end, ancestorSpans = []] = index.entries[key];
+
+    const handle = await fs.promises.open(filePath);
+    const prolog = Buffer.alloc(index.prologLength);
+    const ancestors: Buffer[] = [];
+    const element = Buffer.alloc(end - start);
+    try {
+        const { size } = await handle.stat();
+        if (size != index.size) throw new Error(`Index of ${filePath} is out of date`);
+        await handle.read(prolog, 0, prolog.length, 0);
+        for (let i = 0; i < ancestorSpans.length; i += 2) {
+            const tag = Buffer.alloc(ancestorSpans[i + 1] - ancestorSpans[i]);
+            await handle.read(tag, 0, tag.length, ancestorSpans[i]);
+            ancestors.push(tag);
+        }
+        await handle.read(element, 0, element.length, start);
+    } finally {
+        await handle.close();
+    }
+
+    // The root isn't built, and the element is completed after its descendants, before
+    // its ancestors are closed
+    let result: ParamXMLElement<PTagName, PAttrKey> | undefined = undefined;
+    const openTagNames: string[] = [];
+    const parser = createXMLParser<PTagName, PAttrKey>({
+        ...props,
+        skipRoot: true,
+        onOpenTag: (tag) => { openTagNames.push(tag.tagName) },
+        onCloseTag: () => { openTagNames.pop() },
+        onElement: (el) => { result = el },
+    });
+    parser.write(prolog);
+    for (const tag of ancestors) parser.write(tag);
+    parser.write(element);
+    const found = result;
+    for (const tagName of [...openTagNames].reverse()) parser.write(`</${tagName}>`);
+    parser.end();
+    return found;
+}
+
+// Parallel parsing
+
+// Where a document's top-level elements are, for splitting it between workers
+type XMLTopLevelLayout = {
+    rootTagName: string;
+    // Byte length of everything up to and including the root start tag
+    prologLength: number;
+    // Offsets starting each range of whole top-level elements. The last range ends at
+    // `childrenEnd`, the offset of the root end tag.
+    cuts: number[];
+    childrenEnd: number;
+};
+
+// Find the top-level element boundaries of a file, starting a new range at the first
+// element at least `rangeSize` bytes past the previous cut. Only markup boundaries are
+// tracked, so this is much cheaper than a full parse.
+async function scanTopLevelLayout(filePath: string, rangeSize: number): Promise<XMLTopLevelLayout> {
+    let data: Buffer = Buffer.alloc(0);
+    let dataStart = 0;
+    let pos = 0;
+    let depth = 0;
+    let inDtdSubset = false;
+    let layout: Partial<XMLTopLevelLayout> & { cuts: number[] } = { cuts: [] };
+
+    // Skip the token at `pos`; false if `data` ends before the token does
+    const skipToken = (): boolean => {
+        if (inDtdSubset) {
+            while (pos < data.length && isWhitespaceByte(data[pos])) pos++;
+            if (pos >= data.length) return true;
+            let end: number;
+            if (data[pos] == k_RBRACKET) {
+                end = data.indexOf(k_GT, pos);
+                if (end >= 0) inDtdSubset = false;
+            }
+            else if (data[pos] == k_PERCENT) end = data.indexOf(k_SEMICOLON, pos);
+            else if (matchesAt(data, pos, k_COMMENT_OPEN) != false) {
+                end = data.indexOf(k_COMMENT_CLOSE, pos);
+                if (end >= 0) end += k_COMMENT_CLOSE.length - 1;
+            }
+            else if (data[pos + 1] == k_QMARK) {
+                end = data.indexOf(k_PI_CLOSE, pos);
+                if (end >= 0) end += k_PI_CLOSE.length - 1;
+            }
+            else end = findMarkupEnd(data, pos + 1);
+            if (end < 0) return false;
+            pos = end + 1;
+            return true;
+        }
+
+        if (data[pos] != k_LT) {
+            const lt = data.indexOf(k_LT, pos);
+            pos = lt < 0 ? data.length : lt;
+            return true;
+        }
+        if (pos + 1 >= data.length) return false;
+
+        const next = data[pos + 1];
+        if (next == k_SLASH) {
+            const end = data.indexOf(k_GT, pos);
+            if (end < 0) return false;
+            if (--depth == 0) layout.childrenEnd = dataStart + pos;
+            pos = end + 1;
+            return true;
+        }
+        if (next == k_QMARK) {
+            const end = data.indexOf(k_PI_CLOSE, pos + 2);
+            if (end < 0) return false;
+            pos = end + k_PI_CLOSE.length;
+            return true;
+        }
+        if (next == k_BANG) {
+            const markers: [Buffer, Buffer][] = [[k_COMMENT_OPEN, k_COMMENT_CLOSE], [k_CDATA_OPEN, k_CDATA_CLOSE]];
+            let undecided = false;
+            for (const [open, close] of markers) {
+                const isMatch = matchesAt(data, pos, open);
+                if (isMatch == undefined) undecided = true;
+                if (!isMatch) continue;
+                const end = data.indexOf(close, pos + open.length);
+                if (end < 0) return false;
+                pos = end + close.length;
+                return true;
+            }
+            const isDoctype = matchesAt(data, pos, k_DOCTYPE_OPEN);
+            if (isDoctype) {
+                let end = pos + k_DOCTYPE_OPEN.length;
+                let quote = 0;
+                for (; end < data.length; end++) {
+                    const b = data[end];
+                    if (quote) {
+                        if (b == quote) quote = 0;
+                    }
+                    else if (b == k_QUOT || b == k_APOS) quote = b;
+                    else if (b == k_LBRACKET || b == k_GT) break;
+                }
+                if (end >= data.length) return false;
+                inDtdSubset = data[end] == k_LBRACKET;
+                pos = end + 1;
+                return true;
+            }
+            if (undecided || isDoctype == undefined) return false;
+            throw new XMLParseError('UNEXPECTED_TOKEN', "Unexpected markup after '<!'");
+        }
+
+        const end = findMarkupEnd(data, pos + 1);
+        if (end < 0) return false;
+        const isSelfClosing = data[end - 1] == k_SLASH;
+        const startAbs = dataStart + pos;
+        if (depth == 0) {
+            const nameEnd = data.subarray(pos + 1, end).findIndex((b) => isWhitespaceByte(b) || b == k_SLASH);
+            layout.rootTagName = data.toString('utf-8', pos + 1, nameEnd < 0 ? end : pos + 1 + nameEnd);
+            layout.prologLength = dataStart + end + 1;
+            layout.cuts.push(layout.prologLength);
+            if (isSelfClosing) layout.childrenEnd = layout.prologLength;
+        }
+        else if (depth == 1 && startAbs - layout.cuts[layout.cuts.length - 1] >= rangeSize) {
+            layout.cuts.push(startAbs);
+        }
+        if (!isSelfClosing) depth++;
+        pos = end + 1;
+        return true;
+    }
+
+    const stream = fs.createReadStream(filePath);
+    try {
+        for await (const chunk of stream) {
+            data = data.length > pos ? Buffer.concat([data.subarray(pos), chunk]) : chunk;
+            dataStart += pos;
+            pos = 0;
+            while (pos < data.length && layout.childrenEnd == undefined) {
+                if (!skipToken()) break;
+            }
+            if (layout.childrenEnd != undefined) break;
+        }
+    } catch (err) {
+        if (err instanceof XMLParseError) throw err;
+        throw new XMLParseError('IO_ERROR', (err as Error).message, undefined, err);
+    } finally {
+        stream.destroy();
+    }
+
+    if (layout.rootTagName == undefined) {
+        throw new XMLParseError('UNEXPECTED_EOF', 'Unexpected end of input before the root element');
+    }
+    if (layout.childrenEnd == undefined) {
+        throw new XMLParseError('UNEXPECTED_EOF', `Unexpected end of input inside <${layout.rootTagName}>`);
+    }
+    return layout as XMLTopLevelLayout;
+}
+
+// Position of a byte offset in a file, for errors raised by workers
+async function locateOffset(filePath: string, offset: number): Promise<XMLSourcePosition> {
+    let line = 1;
+    let column = 1;
+    if (offset > 0) {
+        for await (const chunk of fs.createReadStream(filePath, { end: offset - 1 }) as AsyncIterable<Buffer>) {
+            let lineStart = 0;
+            for (let nl = chunk.indexOf(k_NEWLINE); nl >= 0; nl = chunk.indexOf(k_NEWLINE, nl + 1)) {
+                line++;
+                column = 1;
+                lineStart = nl + 1;
+            }
+            column += countUtf8Chars(chunk, lineStart, chunk.length);
+        }
+    }
+    return { line, column, offset };
+}
+
+// A `handlerModule` for `parseXMLParallel` exports one of these as the module itself
+// (`module.exports = ...`), its default export or `onElement`. It runs in a worker thread for each selected element, and what it
+// returns is passed to `onResult` on the main thread. Return undefined to skip an element.
+export type XMLParallelHandler<PElement = XMLElement, R = unknown> = (el: PElement) => R | Promise<R>;
+
+export type XMLParallelOptions<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+> = Pick<XMLParserProps<PTagName, PAttrKey, PSchemaElement>,
+    | 'whitespace' | 'entities' | 'namespaces' | 'attributeDefaults' | 'keepCData' | 'keepProcessingInstructions'
+    | 'addSource' | 'signal'
+> & {
+    // Tag names of the elements passed to the handler
+    select: PTagName | PTagName[];
+    // Path or specifier of the module exporting the XMLParallelHandler. Relative paths
+    // are resolved from the current working directory.
+    handlerModule: string;
+    // Number of worker threads. Defaults to one less than the available parallelism.
+    workers?: number;
+    // Deliver results in document order (default), or as soon as each range is done
+    ordered?: boolean;
+    // Receives each handler result on the main thread. Returning STOP ends parsing.
+    onResult?: (result: unknown) => void | typeof STOP;
+};
+
+// Sent to each worker on startup
+type XMLParallelWorkerData = {
+    [k_PARALLEL_WORKER]: true;
+    filePath: string;
+    handlerModule: string;
+    select: string[];
+    props: Omit<XMLParallelOptions, 'select' | 'handlerModule' | 'workers' | 'ordered' | 'onResult' | 'signal'>;
+    prologLength: number;
+    rootTagName: string;
+};
+type XMLParallelTask = { id: number; start: number; end: number };
+type XMLParallelTaskResult =
+    | { id: number; results: unknown[] }
+    | { id: number; parseError: { code: XMLParseErrorCode; reason: string; offset?: number; path: string[]; snippet?: string } }
+    | { id: number; error: unknown };
+
+const k_PARALLEL_WORKER = 'xml-peruse.parallel-worker';
+// Ranges per worker, so workers that finish early can pick up more of the file
+const k_RANGES_PER_WORKER = 4;
+
+// Parse a file across worker threads. The file is split between its root's children,
+// and each range is parsed by a worker with the prolog (and so the DTD and its entities)
+// in front of it. Selected elements go to the handler in `handlerModule`, which runs in
+// the workers; their results come back to `onResult`.
+export async function parseXMLParallel<
+    PTagName extends XMLTagName = XMLTagName,
+    PAttrKey extends XMLAttrKey = XMLAttrKey,
+    PSchemaElement extends ParamXMLElement<PTagName, PAttrKey> = ParamXMLElement<PTagName, PAttrKey>
+>(
+    filePath: string,
+    options: XMLParallelOptions<PTagName, PAttrKey, PSchemaElement>
+): Promise<XMLParseStatus> {
+    const { select, handlerModule, workers, ordered = true, onResult, signal, ...props } = options;
+    const workerCount = Math.max(1, workers ?? os.availableParallelism() - 1);
+    if (signal?.aborted) return 'aborted';
+
+    const size = (await fs.promises.stat(filePath)).size;
+    const rangeSize = Math.ceil(size / (workerCount * k_RANGES_PER_WORKER));
+    const layout = await scanTopLevelLayout(filePath, rangeSize);
+    const tasks: XMLParallelTask[] = layout.cuts
+        .map((start, id) => ({ id, start, end: layout.cuts[id + 1] ?? layout.childrenEnd }))
+        .filter((task) => task.end > task.start);
+    if (signal?.aborted) return 'aborted';
+
+    const workerData: XMLParallelWorkerData = {
+        [k_PARALLEL_WORKER]: true,
+        filePath: path.resolve(filePath),
+        handlerModule: handlerModule.startsWith('.') ? path.resolve(handlerModule) : handlerModule,
+        select: Array.isArray(select) ? select : [select],
+        props: props as XMLParallelWorkerData['props'],
+        prologLength: layout.prologLength,
+        rootTagName: layout.rootTagName,
+    };
+
+    return new Promise((resolve, reject) => {
+        const pool: Worker[] = [];
+        let nextTask = 0;
+        let settled = false;
+        // Results of ranges finished ahead of an earlier one, when ordered
+        const pending: Map<number, unknown[]> = new Map();
+        let nextDelivered = 0;
+
+        const settle = (cb: () => void) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            for (const worker of pool) worker.terminate();
+            cb();
+        }
+        const onAbort = () => settle(() => resolve('aborted'));
+        const fail = (err: unknown) => settle(() => reject(err));
+
+        // Pass results on; false once onResult returns STOP
+        const deliver = (results: unknown[]): boolean => {
+            for (const result of results) {
+                if (onResult?.(result) === STOP) {
+                    settle(() => resolve('stopped'));
+                    return false;
+                }
+            }
+            return true;
+        }
+        const onTaskDone = (id: number, results: unknown[]) => {
+            if (!ordered) return deliver(results);
+            pending.set(id, results);
+            while (pending.has(nextDelivered)) {
+                const next = pending.get(nextDelivered)!;
+                pending.delete(nextDelivered++);
+                if (!deliver(next)) return;
+            }
+        }
+        const onParseError = async (task: XMLParallelTask, e: Extract<XMLParallelTaskResult, { parseError: unknown }>['parseError']) => {
+            // Offsets past the prolog were read from the task's range
+            const offset = e.offset == undefined ? undefined
+                : e.offset < layout.prologLength ? e.offset
+                : Math.min(task.start + e.offset - layout.prologLength, task.end);
+            const position = offset == undefined ? undefined : await locateOffset(filePath, offset);
+            fail(new XMLParseError(e.code, e.reason, position && { position, path: e.path, snippet: e.snippet ?? '' }));
+        }
+
+        // Workers let go once there's nothing left for them; any other exit loses ranges
+        const retired: Set<Worker> = new Set();
+        const runNext = (worker: Worker) => {
+            const task = tasks[nextTask++];
+            if (task) return worker.postMessage(task);
+            retired.add(worker);
+            worker.terminate();
+        }
+
+        let done = 0;
+        if (tasks.length == 0) return settle(() => resolve('completed'));
+        signal?.addEventListener('abort', onAbort);
+
+        for (let i = 0; i < Math.min(workerCount, tasks.length); i++) {
+            let worker: Worker;
+            try {
+                worker = createParallelWorker(workerData);
+            } catch (err) {
+                return fail(err);
+            }
+            pool.push(worker);
+            worker.on('message', (msg: XMLParallelTaskResult) => {
+                if (settled) return;
+                if ('parseError' in msg) return void onParseError(tasks.find((t) => t.id == msg.id)!, msg.parseError).catch(fail);
+                if ('error' in msg) return fail(msg.error);
+                // Errors thrown by onResult reject the promise
+                try {
+                    onTaskDone(msg.id, msg.results);
+                } catch (err) {
+                    return fail(err);
+                }
+                if (settled) return;
+                if (++done == tasks.length) return settle(() => resolve('completed'));
+                runNext(worker);
+            });
+            worker.on('error', fail);
+            worker.on('exit', (code) => {
+                if (!retired.has(worker)) fail(new Error(`A parseXMLParallel worker exited with code ${code} before finishing`));
+            });
+            runNext(worker);
+        }
+    });
+}
+
+// Workers run this module's own file. Loaders like tsx given to the main thread don't carry
+// over to workers, so when running from TypeScript source, tsx's require hook is registered
+// in each worker first.
+function createParallelWorker(workerData: XMLParallelWorkerData): Worker {
+    if (path.extname(__filename) != '.ts') return new Worker(__filename, { workerData });
+    let tsxApi: string;
+    try {
+        tsxApi = require.resolve('tsx/cjs/api');
+    } catch {
+        throw new Error('parseXMLParallel needs xml-peruse compiled to JavaScript, or tsx installed to run it from source');
+    }
+    const bootstrap = `require(${JSON.stringify(tsxApi)}).register(); require(${JSON.stringify(__filename)});`;
+    return new Worker(bootstrap, { eval: true, workerData });
+}
+
+// Worker side of `parseXMLParallel`: parse each range it's sent as a document made of the
+// prolog, the range and the root end tag
+async function runParallelWorker(data: XMLParallelWorkerData) {
+    const mod = await import(data.handlerModule);
+    // Without esModuleInterop, a CommonJS `module.exports = fn` comes back as the function.
+    // Node's own import gives a CommonJS module's `exports` as the default, so a compiled
+    // `export default` is one level further down.
+    const handler: unknown = typeof mod == 'function' ? mod
+        : typeof mod.default == 'function' ? mod.default
+        : typeof mod.default?.default == 'function' ? mod.default.default
+        : mod.onElement;
+    if (typeof handler != 'function') {
+        throw new Error(`Handler module ${data.handlerModule} must export a function as module.exports, its default export or onElement`);
+    }
+    const selected = new Set(data.select);
+    const rootEndTag = Buffer.from(`</${data.rootTagName}>`);
+
+    parentPort!.on('message', async (task: XMLParallelTask) => {
+        const results: unknown[] = [];
+        const source = async function* () {
+            yield* fs.createReadStream(data.filePath, { end: data.prologLength - 1 });
+            yield* fs.createReadStream(data.filePath, { start: task.start, end: task.end - 1 });
+            yield rootEndTag;
+        };
+        try {
+            await parseXML(Readable.from(source()), {
+                ...data.props,
+                skipRoot: true,
+                onElement: (el) => {
+                    if (selected.has(el.tagName)) results.push((handler as XMLParallelHandler)(el));
+                },
+            });
+            const resolved = (await Promise.all(results)).filter((r) => r !== undefined);
+            parentPort!.postMessage({ id: task.id, results: resolved } satisfies XMLParallelTaskResult);
+        } catch (err) {
+            const reply: XMLParallelTaskResult = err instanceof XMLParseError
+                ? { id: task.id, parseError: {
+                    code: err.code, reason: err.reason, offset: err.position?.offset,
+                    path: err.path, snippet: err.snippet,
+                } }
+                : { id: task.id, error: err };
+            parentPort!.postMessage(reply);
+        }
+    });
+}
+
+if (!isMainThread && workerData?.[k_PARALLEL_WORKER]) {
+    runParallelWorker(workerData);
+}
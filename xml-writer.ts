@@ -0,0 +1,298 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import {
+    XMLAttrObj, XMLCData, XMLContentModel, XMLContentParticle, XMLDeclaration, XMLDoctype, XMLDtdDecl, XMLElement,
+    XMLEntityRef, XMLProcessingInstruction,
+} from './xml-peruse';
+
+// Write XMLElement trees back out as XML: `serializeXML` for a single element held in
+// memory, and `createXMLWriter` for output too large to build as one string, written a
+// piece at a time to a stream.
+
+export type XMLSerializeOptions = {
+    // Indent nested elements by this much per level, one per line. Elements holding text
+    // are written on one line, so indenting never changes their content. Unset writes
+    // everything as it is in the tree.
+    indent?: string;
+    // Write elements without children as <a/> rather than <a></a>. Default true
+    selfClose?: boolean;
+    // Write `&name;` in attribute values as a reference rather than escaping the `&`, for
+    // values parsed with `entities: 'keep'` or `'report'`, which keep references as written
+    keepReferences?: boolean;
+    // Start with an <?xml ?> declaration: the one given, or version 1.0 in UTF-8 for `true`
+    declaration?: XMLDeclaration | boolean;
+    // Start with a DOCTYPE rebuilt from its identifiers and internal subset
+    doctype?: XMLDoctype;
+};
+
+export type XMLWriter = {
+    declaration: (decl?: XMLDeclaration) => void;
+    doctype: (doctype: XMLDoctype) => void;
+    // Start an element, to be ended by `closeElement`
+    openElement: (tagName: string, attributes?: XMLAttrObj) => void;
+    closeElement: () => void;
+    // A complete element and its descendants
+    element: (el: XMLElement) => void;
+    text: (text: string) => void;
+    cdata: (text: string) => void;
+    // The text between `<!--` and `-->`, or a whole comment as passed to `onComment`
+    comment: (text: string) => void;
+    processingInstruction: (target: string, data?: string) => void;
+    // Resolves once the output stream has room for more; writers to a function are always ready
+    ready: () => Promise<void>;
+    // Close any open elements and end the output stream
+    end: () => Promise<void>;
+};
+
+// Characters that can't appear as-is in text and attribute values. `>` is escaped too so
+// text can't contain `]]>`, and line breaks and tabs so they aren't normalized on reading.
+const k_TEXT_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '\r': '&#xD;' };
+const k_ATTRIBUTE_ESCAPES: Record<string, string> = {
+    ...k_TEXT_ESCAPES, '"': '&quot;', '\t': '&#x9;', '\n': '&#xA;',
+};
+const escapeText = (text: string): string => text.replace(/[&<>\r]/g, (c) => k_TEXT_ESCAPES[c]);
+const escapeAttribute = (value: string): string => value.replace(/[&<>"\t\n\r]/g, (c) => k_ATTRIBUTE_ESCAPES[c]);
+// As escapeAttribute, but an `&` starting a named reference is left as it is
+const escapeAttributeKeepingReferences = (value: string): string =>
+    value.replace(/&(?![A-Za-z_:][\w.:-]*;)|[<>"\t\n\r]/g, (c) => k_ATTRIBUTE_ESCAPES[c]);
+
+// Quote an entity value or attribute default, in whichever quotes it doesn't contain.
+// Holding both, its `"` are written as character references.
+const quoteLiteral = (value: string): string => {
+    if (!value.includes('"')) return `"${value}"`;
+    return value.includes("'") ? `"${value.replace(/"/g, '&#34;')}"` : `'${value}'`;
+}
+
+// Quote a public or system identifier, which can't hold character references
+const quoteId = (id: string): string => {
+    if (id.includes('"') && id.includes("'")) {
+        throw new Error(`Identifier ${JSON.stringify(id)} can't be quoted: it contains both ' and "`);
+    }
+    return quoteLiteral(id);
+}
+
+// Output buffered up to this many characters before it's written to a stream
+const k_WRITE_BUFFER_SIZE = 64 * 1024;
+
+function formatParticle(particle: XMLContentParticle): string {
+    const body = particle.kind == 'name'
+        ? particle.name
+        : `(${particle.particles.map(formatParticle).join(particle.kind == 'seq' ? ', ' : ' | ')})`;
+    return body + particle.quantifier;
+}
+
+function formatContentModel(model: XMLContentModel): string {
+    if (model.kind == 'EMPTY' || model.kind == 'ANY') return model.kind;
+    if (model.kind == 'mixed') {
+        return model.names.length == 0 ? '(#PCDATA)' : `(#PCDATA | ${model.names.join(' | ')})*`;
+    }
+    const particle = formatParticle(model.particle);
+    return model.particle.kind == 'name' ? `(${particle})` : particle;
+}
+
+const formatExternalId = ({ publicId, systemId }: { publicId?: string; systemId?: string }): string => {
+    if (publicId != undefined) {
+        return systemId != undefined ? `PUBLIC ${quoteId(publicId)} ${quoteId(systemId)}` : `PUBLIC ${quoteId(publicId)}`;
+    }
+    return systemId != undefined ? `SYSTEM ${quoteId(systemId)}` : '';
+}
+
+export function formatDtdDecl(decl: XMLDtdDecl): string {
+    if (decl.tagName == '!ELEMENT') {
+        const contentModel = decl.contentModel ?? (decl.model ? formatContentModel(decl.model) : 'ANY');
+        return `<!ELEMENT ${decl.elementName} ${contentModel}>`;
+    }
+    if (decl.tagName == '!ATTLIST') {
+        const attributes = decl.attributes.map(({ attributeName, dataType, defaultDeclaration }) => {
+            const { defaultType, defaultValue } = defaultDeclaration;
+            const parts = [attributeName, dataType];
+            if (defaultType) parts.push(defaultType);
+            if (defaultValue != undefined) parts.push(quoteLiteral(defaultValue));
+            return parts.join(' ');
+        });
+        return `<!ATTLIST ${decl.elementName} ${attributes.join(' ')}>`;
+    }
+    if (decl.tagName == '!ENTITY') {
+        const name = decl.parameter ? `% ${decl.key}` : decl.key;
+        if (decl.systemId == undefined) return `<!ENTITY ${name} ${quoteLiteral(decl.value)}>`;
+        const ndata = decl.notation != undefined ? ` NDATA ${decl.notation}` : '';
+        return `<!ENTITY ${name} ${formatExternalId(decl)}${ndata}>`;
+    }
+    return `<!NOTATION ${decl.name} ${formatExternalId(decl)}>`;
+}
+
+// The DOCTYPE with its internal subset. Declarations read from the external subset stay
+// there, referred to by the system identifier.
+export function formatDoctype(doctype: XMLDoctype, indent: string = ''): string {
+    let res = `<!DOCTYPE ${doctype.rootTagName}`;
+    const externalId = formatExternalId({ publicId: doctype.public, systemId: doctype.external });
+    if (externalId) res += ' ' + externalId;
+    if (doctype.internal && doctype.internal.length > 0) {
+        res += ' [\n' + doctype.internal.map((decl) => indent + formatDtdDecl(decl) + '\n').join('') + ']';
+    }
+    return res + '>';
+}
+
+export function createXMLWriter(
+    out: Writable | ((chunk: string) => void),
+    options: Omit<XMLSerializeOptions, 'declaration' | 'doctype'> = {}
+): XMLWriter {
+    const { indent, selfClose = true, keepReferences = false } = options;
+    const escapeValue = keepReferences ? escapeAttributeKeepingReferences : escapeAttribute;
+
+    // Open elements. `inline` ones hold text, so nothing inside them is indented, and
+    // `hasElements` ones end on a line of their own when indenting.
+    const openTags: { tagName: string; inline: boolean; hasElements: boolean }[] = [];
+    // The `>` of the innermost start tag is held back until its content arrives, so an
+    // element with none can be self-closed
+    let startTagOpen = false;
+    let atLineStart = true;
+
+    let pending = '';
+    const flush = () => {
+        if (!pending) return;
+        if (typeof out == 'function') out(pending);
+        else out.write(pending);
+        pending = '';
+    }
+    const write = (chunk: string) => {
+        pending += chunk;
+        atLineStart = chunk.endsWith('\n');
+        if (pending.length >= k_WRITE_BUFFER_SIZE) flush();
+    }
+
+    const finishStartTag = () => {
+        if (!startTagOpen) return;
+        write('>');
+        startTagOpen = false;
+    }
+    // Start a new line for markup at the current depth, unless it's inside text
+    const newLine = () => {
+        const top = openTags[openTags.length - 1];
+        if (indent == undefined || top?.inline || atLineStart) return;
+        write('\n' + indent.repeat(openTags.length));
+    }
+    // Before content other than an element
+    const beginContent = (inline: boolean) => {
+        finishStartTag();
+        const top = openTags[openTags.length - 1];
+        if (top && inline) top.inline = true;
+    }
+
+    const openElement = (tagName: string, attributes?: XMLAttrObj) => {
+        finishStartTag();
+        newLine();
+        const top = openTags[openTags.length - 1];
+        if (top) top.hasElements = true;
+        let tag = '<' + tagName;
+        for (const [key, value] of Object.entries(attributes ?? {})) {
+            if (value != undefined) tag += ` ${key}="${escapeValue(value)}"`;
+        }
+        write(tag);
+        openTags.push({ tagName, inline: false, hasElements: false });
+        startTagOpen = true;
+    }
+    const closeElement = () => {
+        const top = openTags.pop();
+        if (!top) throw new Error('No open element to close');
+        if (startTagOpen) {
+            startTagOpen = false;
+            write(selfClose ? '/>' : `></${top.tagName}>`);
+            return;
+        }
+        if (top.hasElements && !top.inline && indent != undefined) {
+            write('\n' + indent.repeat(openTags.length));
+        }
+        write(`</${top.tagName}>`);
+    }
+    const text = (text: string) => {
+        if (!text) return;
+        beginContent(true);
+        write(escapeText(text));
+    }
+    const cdata = (text: string) => {
+        beginContent(true);
+        // `]]>` can't appear in a section, so split it across two
+        write('<![CDATA[' + text.replace(/]]>/g, ']]]]><![CDATA[>') + ']]>');
+    }
+    const comment = (text: string) => {
+        beginContent(false);
+        newLine();
+        const isWhole = text.length >= 7 && text.startsWith('<!--') && text.endsWith('-->');
+        write(isWhole ? text : `<!--${text}-->`);
+    }
+    const processingInstruction = (target: string, data?: string) => {
+        beginContent(false);
+        newLine();
+        write(data ? `<?${target} ${data}?>` : `<?${target}?>`);
+    }
+
+    const element = (el: XMLElement) => {
+        openElement(el.tagName, el.attributes);
+        const children = el.children ?? [];
+        // Text anywhere among the children keeps them all on one line
+        const holdsText = children.some((c) => typeof c == 'string' ? c.trim() : c.tagName == '&' || c.tagName == '![CDATA[');
+        if (holdsText) beginContent(true);
+        for (const child of children) {
+            if (typeof child == 'string') {
+                // Whitespace between elements is replaced by the indentation
+                if (holdsText || indent == undefined) text(child);
+            }
+            // XMLElement's `tagName` is any string, so these need casts to narrow
+            else if (child.tagName == '&') {
+                beginContent(true);
+                write(`&${(child as XMLEntityRef).name};`);
+            }
+            else if (child.tagName == '![CDATA[') cdata((child as XMLCData).text);
+            else if (child.tagName == '?') {
+                const pi = child as XMLProcessingInstruction;
+                processingInstruction(pi.target, pi.data);
+            }
+            else element(child as XMLElement);
+        }
+        closeElement();
+    }
+
+    return {
+        declaration: (decl = { version: '1.0', encoding: 'UTF-8' }) => {
+            let res = '<?xml';
+            for (const [key, value] of Object.entries(decl)) {
+                if (value != undefined) res += ` ${key}="${escapeAttribute(value)}"`;
+            }
+            write(res + '?>\n');
+        },
+        doctype: (doctype) => {
+            write(formatDoctype(doctype, indent ?? '') + '\n');
+        },
+        openElement,
+        closeElement,
+        element,
+        text,
+        cdata,
+        comment,
+        processingInstruction,
+        ready: async () => {
+            flush();
+            if (typeof out != 'function' && out.writableNeedDrain) await once(out, 'drain');
+        },
+        end: async () => {
+            while (openTags.length > 0) closeElement();
+            flush();
+            if (typeof out == 'function') return;
+            out.end();
+            if (!out.writableFinished) await once(out, 'finish');
+        },
+    };
+}
+
+// Write `el` and its descendants as XML text
+export function serializeXML(el: XMLElement, options: XMLSerializeOptions = {}): string {
+    const chunks: string[] = [];
+    const writer = createXMLWriter((chunk) => chunks.push(chunk), options);
+    if (options.declaration) writer.declaration(options.declaration === true ? undefined : options.declaration);
+    if (options.doctype) writer.doctype(options.doctype);
+    writer.element(el);
+    // Writing to a function, everything is out before `end` first awaits
+    void writer.end();
+    return chunks.join('');
+}